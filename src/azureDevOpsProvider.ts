@@ -0,0 +1,134 @@
+import { fetchWithRetry } from "./http";
+import { providerHttpError } from "./sourceProvider";
+import type { RequestContext, SourceProvider } from "./sourceProvider";
+import type { TreeItem } from "./githubPartialSubtree";
+
+type AzureItem = { objectId: string; gitObjectType: "blob" | "tree" | "commit"; path: string };
+
+const TOKEN_ENV = ["AZURE_DEVOPS_EXT_PAT", "AZURE_DEVOPS_TOKEN"] as const;
+const API_VERSION = "7.0";
+
+function azureHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { "User-Agent": "@pnp/spfx-sample" };
+    // personal access tokens go in as the password of basic auth, with an empty user name
+    if (token) headers.Authorization = `Basic ${Buffer.from(`:${token}`).toString("base64")}`;
+    return headers;
+}
+
+async function azureGet(url: string, ctx: RequestContext): Promise<Response> {
+    ctx.verbose && console.error(`[debug] GET ${url}`);
+    return fetchWithRetry(url, { headers: azureHeaders(ctx.token), signal: ctx.signal, redirect: "manual" });
+}
+
+async function azureError(res: Response, ctx: RequestContext): Promise<Error> {
+    // anonymous requests to a private project are redirected to the sign-in page
+    if (res.status >= 300 && res.status < 400) {
+        return new Error(`Azure DevOps asked to sign in (HTTP ${res.status}). Pass --token or set ${TOKEN_ENV[0]} with a personal access token.`);
+    }
+    const data = (await res.json().catch(() => null)) as { message?: unknown } | null;
+    return providerHttpError("Azure DevOps", res, typeof data?.message === "string" ? data.message : undefined, ctx.token, TOKEN_ENV);
+}
+
+/** Branch names and commit SHAs are told apart by shape, as `git` does for unqualified refs. */
+function versionQuery(ref: string): Record<string, string> {
+    return {
+        "versionDescriptor.version": ref,
+        "versionDescriptor.versionType": /^[0-9a-f]{40}$/i.test(ref) ? "commit" : "branch"
+    };
+}
+
+/**
+ * The Azure DevOps provider (dev.azure.com, or an Azure DevOps Server collection at `webRoot`), using the
+ * Git REST API.
+ *
+ * `owner` is `<organization>/<project>` and `repo` the repository name, as in
+ * `https://dev.azure.com/<organization>/<project>/_git/<repo>`. Azure DevOps serves no tarballs.
+ */
+export function azureDevOpsProvider(webRoot = "https://dev.azure.com"): SourceProvider {
+    const web = webRoot.replace(/\/+$/, "");
+    const repoApi = (owner: string, repo: string) => `${web}/${owner}/_apis/git/repositories/${encodeURIComponent(repo)}`;
+
+    async function listItems(owner: string, repo: string, ref: string, dir: string, recursive: boolean, ctx: RequestContext): Promise<AzureItem[]> {
+        const query = new URLSearchParams({
+            scopePath: `/${dir}`,
+            recursionLevel: recursive ? "Full" : "OneLevel",
+            ...versionQuery(ref),
+            "api-version": API_VERSION
+        });
+        const res = await azureGet(`${repoApi(owner, repo)}/items?${query}`, ctx);
+        if (res.status === 404) throw new Error(`Could not find /${dir} at ${owner}/${repo}@${ref}`);
+        if (!res.ok) throw await azureError(res, ctx);
+        const data = (await res.json()) as { value: AzureItem[] };
+        // the listing includes the folder itself
+        const self = `/${dir}`.replace(/\/$/, "");
+        return data.value.filter(i => i.path.replace(/\/$/, "") !== self);
+    }
+
+    async function latestCommit(owner: string, repo: string, ref: string, criteria: Record<string, string>, ctx: RequestContext): Promise<string | null> {
+        const query = new URLSearchParams({
+            "searchCriteria.itemVersion.version": ref,
+            "searchCriteria.itemVersion.versionType": versionQuery(ref)["versionDescriptor.versionType"],
+            "searchCriteria.$top": "1",
+            ...criteria,
+            "api-version": API_VERSION
+        });
+        const res = await azureGet(`${repoApi(owner, repo)}/commits?${query}`, ctx);
+        if (!res.ok) throw await azureError(res, ctx);
+        return ((await res.json()) as { value: Array<{ commitId: string }> }).value[0]?.commitId ?? null;
+    }
+
+    function relativeTo(dir: string, itemPath: string): string {
+        const prefix = dir ? `/${dir}/` : "/";
+        return itemPath.startsWith(prefix) ? itemPath.slice(prefix.length) : itemPath.replace(/^\//, "");
+    }
+
+    return {
+        name: "azure",
+        host: new URL(web).host,
+        tokenEnv: TOKEN_ENV,
+        cloneUrl: (owner, repo) => `${web}/${owner}/_git/${encodeURIComponent(repo)}`,
+
+        async listFolder({ owner, repo, ref, path: dir, ...ctx }) {
+            const items = await listItems(owner, repo, ref, dir, false, ctx);
+            return items.map((i): TreeItem => ({ path: relativeTo(dir, i.path), type: i.gitObjectType, sha: i.objectId }));
+        },
+
+        // items are listed by path and ref; the tree SHA is not needed
+        async listTree({ owner, repo, ref, path: dir, ...ctx }) {
+            const items = await listItems(owner, repo, ref, dir, true, ctx);
+            return { items: items.map((i): TreeItem => ({ path: relativeTo(dir, i.path), type: i.gitObjectType, sha: i.objectId })) };
+        },
+
+        async fetchFile({ owner, repo, ref, path: filePath, ...ctx }) {
+            const query = new URLSearchParams({ path: `/${filePath}`, ...versionQuery(ref), $format: "octetstream", "api-version": API_VERSION });
+            const res = await azureGet(`${repoApi(owner, repo)}/items?${query}`, ctx);
+            if (res.status === 404) return null;
+            if (!res.ok) throw await azureError(res, ctx);
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        async fetchBlob({ owner, repo, sha, ...ctx }) {
+            const res = await azureGet(`${repoApi(owner, repo)}/blobs/${sha}?$format=octetstream&api-version=${API_VERSION}`, ctx);
+            if (!res.ok) throw await azureError(res, ctx);
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        async resolveCommit({ owner, repo, ref, ...ctx }) {
+            const sha = await latestCommit(owner, repo, ref, {}, ctx);
+            if (!sha) throw new Error(`Ref ${ref} was not found in ${owner}/${repo}.`);
+            return sha;
+        },
+
+        async lastCommitBefore({ owner, repo, ref, path: p, before, ...ctx }) {
+            return latestCommit(owner, repo, ref, { "searchCriteria.itemPath": `/${p}`, "searchCriteria.toDate": before.toISOString() }, ctx);
+        },
+
+        async pullRequestHead({ owner, repo, number, ...ctx }) {
+            const res = await azureGet(`${repoApi(owner, repo)}/pullrequests/${number}?api-version=${API_VERSION}`, ctx);
+            if (!res.ok) throw await azureError(res, ctx);
+            return ((await res.json()) as { lastMergeSourceCommit: { commitId: string } }).lastMergeSourceCommit.commitId;
+        },
+
+        pullRef: (number) => `refs/pull/${number}/head`
+    };
+}
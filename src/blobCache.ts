@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { TreeItem } from "./githubPartialSubtree";
+
+/**
+ * Persistent download cache, shared by every repo and ref.
+ *
+ * Layout under the cache directory:
+ * - `blobs/<sha[0..2]>/<sha>`: file contents, keyed by git blob SHA (content-addressed, so samples
+ *   and refs that share a file share one copy)
+ * - `trees/<owner>/<repo>/<ref>/<sample path>.json`: the last tree listing seen for a sample at a ref,
+ *   which is what lets `--offline` work without any request
+ *
+ * Entries' mtimes are refreshed whenever they are used, so pruning by age removes what has not been needed lately.
+ */
+
+export type CacheStats = { dir: string; blobs: number; trees: number; bytes: number };
+
+/**
+ * `samplePath` is the sample's repository path, e.g. "samples/react-hello-world". `host` is only set for
+ * repositories that are not on github.com.
+ */
+export type SampleTreeKey = { owner: string; repo: string; ref: string; samplePath: string; host?: string };
+
+/**
+ * The cache directory: `SPFX_SAMPLE_CACHE_DIR` when set, otherwise the platform's user cache folder
+ * (`%LOCALAPPDATA%`, `~/Library/Caches`, or `$XDG_CACHE_HOME` / `~/.cache`).
+ */
+export function defaultCacheDir(env: NodeJS.ProcessEnv = process.env, platform: NodeJS.Platform = process.platform): string {
+    if (env.SPFX_SAMPLE_CACHE_DIR) return path.resolve(env.SPFX_SAMPLE_CACHE_DIR);
+    const home = os.homedir();
+    if (platform === "win32") return path.join(env.LOCALAPPDATA || path.join(home, "AppData", "Local"), "spfx-sample-cli", "Cache");
+    if (platform === "darwin") return path.join(home, "Library", "Caches", "spfx-sample-cli");
+    return path.join(env.XDG_CACHE_HOME || path.join(home, ".cache"), "spfx-sample-cli");
+}
+
+function blobPath(dir: string, sha: string): string {
+    if (!/^[0-9a-f]{40,64}$/i.test(sha)) throw new Error(`Invalid blob SHA: ${sha}`);
+    const s = sha.toLowerCase();
+    return path.join(dir, "blobs", s.slice(0, 2), s);
+}
+
+function treePath(dir: string, key: SampleTreeKey): string {
+    const seg = (s: string) => encodeURIComponent(s);
+    const host = key.host ? [seg(key.host)] : [];
+    return path.join(dir, "trees", ...host, seg(key.owner), seg(key.repo), seg(key.ref), `${seg(key.samplePath)}.json`);
+}
+
+async function touch(p: string): Promise<void> {
+    const now = new Date();
+    await fs.utimes(p, now, now).catch(() => { /* best effort */ });
+}
+
+/** Write via a temp file + rename so an interrupted write never leaves a partial entry behind. */
+async function writeAtomic(p: string, data: Uint8Array | string): Promise<void> {
+    await fs.mkdir(path.dirname(p), { recursive: true });
+    const tmp = `${p}.${process.pid}.${Date.now()}.tmp`;
+    try {
+        await fs.writeFile(tmp, data);
+        await fs.rename(tmp, p);
+    } catch (e) {
+        await fs.rm(tmp, { force: true });
+        throw e;
+    }
+}
+
+/**
+ * @returns The cached bytes for a blob SHA, or `null` when it is not cached.
+ */
+export async function readCachedBlob(dir: string, sha: string): Promise<Uint8Array | null> {
+    const p = blobPath(dir, sha);
+    try {
+        const bytes = await fs.readFile(p);
+        await touch(p);
+        return bytes;
+    } catch {
+        return null;
+    }
+}
+
+export async function writeCachedBlob(dir: string, sha: string, bytes: Uint8Array): Promise<void> {
+    await writeAtomic(blobPath(dir, sha), bytes);
+}
+
+/**
+ * @returns The tree listing saved by the last online download of that sample/ref, or `null`.
+ */
+export async function readCachedTree(dir: string, key: SampleTreeKey): Promise<TreeItem[] | null> {
+    const p = treePath(dir, key);
+    try {
+        const items = JSON.parse(await fs.readFile(p, "utf8"));
+        if (!Array.isArray(items)) return null;
+        await touch(p);
+        return items as TreeItem[];
+    } catch {
+        return null;
+    }
+}
+
+export async function writeCachedTree(dir: string, key: SampleTreeKey, items: TreeItem[]): Promise<void> {
+    await writeAtomic(treePath(dir, key), JSON.stringify(items));
+}
+
+async function* walkFiles(dir: string): AsyncGenerator<{ path: string; size: number; mtimeMs: number }> {
+    let entries: import("node:fs").Dirent[];
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const e of entries) {
+        const p = path.join(dir, e.name);
+        if (e.isDirectory()) {
+            yield* walkFiles(p);
+        } else if (e.isFile()) {
+            const st = await fs.stat(p).catch(() => null);
+            if (st) yield { path: p, size: st.size, mtimeMs: st.mtimeMs };
+        }
+    }
+}
+
+/**
+ * Count cached blobs and tree listings and their total size on disk.
+ */
+export async function cacheStats(dir: string): Promise<CacheStats> {
+    const stats: CacheStats = { dir, blobs: 0, trees: 0, bytes: 0 };
+    for await (const f of walkFiles(path.join(dir, "blobs"))) {
+        stats.blobs++;
+        stats.bytes += f.size;
+    }
+    for await (const f of walkFiles(path.join(dir, "trees"))) {
+        stats.trees++;
+        stats.bytes += f.size;
+    }
+    return stats;
+}
+
+/**
+ * Delete cache entries not used within `maxAgeMs`.
+ *
+ * @returns What was removed.
+ */
+export async function pruneCache(dir: string, maxAgeMs: number, now = Date.now()): Promise<CacheStats> {
+    const removed: CacheStats = { dir, blobs: 0, trees: 0, bytes: 0 };
+    for (const kind of ["blobs", "trees"] as const) {
+        for await (const f of walkFiles(path.join(dir, kind))) {
+            if (now - f.mtimeMs <= maxAgeMs) continue;
+            await fs.rm(f.path, { force: true });
+            removed[kind]++;
+            removed.bytes += f.size;
+        }
+    }
+    return removed;
+}
+
+/**
+ * Delete the whole cache.
+ *
+ * @returns What was removed.
+ */
+export async function clearCache(dir: string): Promise<CacheStats> {
+    const stats = await cacheStats(dir);
+    await fs.rm(path.join(dir, "blobs"), { recursive: true, force: true });
+    await fs.rm(path.join(dir, "trees"), { recursive: true, force: true });
+    return stats;
+}
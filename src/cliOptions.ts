@@ -1,5 +1,5 @@
 export type Mode = "extract" | "repo";
-export type Method = "auto" | "git" | "api";
+export type Method = "auto" | "git" | "api" | "tarball";
 
 export type CliOptions = {
     ref: string;
@@ -12,6 +12,48 @@ export type CliOptions = {
     method?: Method;
     noColor?: boolean;
 
+    /**
+     * Token for API requests. On github.com it falls back to GITHUB_TOKEN, GH_TOKEN, then `gh auth token`; other
+     * hosts read their own variables (see `SourceProvider.tokenEnv`).
+     */
+    token?: string;
+
+    /** Serve the sample from the local blob cache without any network request */
+    offline?: boolean;
+
+    /** Continue an interrupted API download from its partial folder */
+    resume?: boolean;
+
+    /** Get the head of this pull request (merge request on GitLab) instead of `ref` */
+    pr?: string | number;
+
+    /** Get the newest commit that touched the sample before this date (ISO date or date-time) */
+    at?: string;
+
+    /** File with more sample names for `get` (one per line) */
+    from?: string;
+
+    /** Repository folder that holds the samples (default "samples"; "." for the repository root) */
+    path?: string;
+
+    /** Git host to download from, e.g. "github.contoso.com" or "https://gitlab.com" (default github.com) */
+    host?: string;
+
+    /** Service the host runs ("github", "gitlab" or "azure"); inferred from the host name when omitted */
+    provider?: string;
+
+    /** Local clone, bare mirror or plain copy of the repository (folder path or file:// URL) to read instead of a host */
+    source?: string;
+
+    /**
+     * Repo mode: make `origin` the user's fork and `upstream` the sample repository. A user name, the fork's clone
+     * URL or path, or `true` (no value) for the user the token belongs to.
+     */
+    fork?: string | boolean;
+
+    /** Repo mode: create this working branch at the commit that was checked out */
+    branch?: string;
+
     /** New project/package name to apply after download */
     rename?: string;
 
@@ -22,3 +64,150 @@ export type CliOptions = {
      */
     newid?: string | boolean;
 };
+
+export type SortOrder = "asc" | "desc";
+
+export type ListOptions = {
+    ref: string;
+    repo?: string;
+    owner?: string;
+    method?: Method;
+    verbose?: boolean;
+    noColor?: boolean;
+    token?: string;
+
+    /** Local clone, bare mirror or plain copy of the repository to list instead of GitHub */
+    source?: string;
+    /** Git host to list, e.g. "github.contoso.com" or "https://gitlab.com" (default github.com) */
+    host?: string;
+    /** Service the host runs ("github", "gitlab" or "azure"); inferred from the host name when omitted */
+    provider?: string;
+    /** Repository folder that holds the samples (default "samples"; "." for the repository root) */
+    path?: string;
+
+    /** Case-insensitive substring filter applied to sample folder names */
+    filter?: string;
+    sort?: SortOrder;
+
+    /** Page size; when omitted every matching sample is returned */
+    limit?: string | number;
+    /** 1-based page number (requires limit) */
+    page?: string | number;
+};
+
+export type SearchOptions = {
+    ref: string;
+    repo?: string;
+    owner?: string;
+    verbose?: boolean;
+    noColor?: boolean;
+    token?: string;
+
+    /** Only include samples with a tag containing this text */
+    tag?: string;
+    /** Only include samples with an author (name or GitHub account) containing this text */
+    author?: string;
+    /** Maximum number of results to print */
+    limit?: string | number;
+    /** Ignore the on-disk index cache and rebuild it */
+    refresh?: boolean;
+};
+
+export type InfoOptions = {
+    ref: string;
+    repo?: string;
+    owner?: string;
+    verbose?: boolean;
+    noColor?: boolean;
+    token?: string;
+
+    /** Repository folder that holds the samples (default "samples"; "." for the repository root) */
+    path?: string;
+    /** Git host to read from, e.g. "github.contoso.com" or "https://gitlab.com" (default github.com) */
+    host?: string;
+    /** Service the host runs ("github", "gitlab" or "azure"); inferred from the host name when omitted */
+    provider?: string;
+    /** Local clone, bare mirror or plain copy of the repository to read instead of a host */
+    source?: string;
+
+    /** Print the summary as JSON instead of human-readable text */
+    json?: boolean;
+};
+
+export type CacheOptions = {
+    verbose?: boolean;
+    noColor?: boolean;
+
+    /** Cache directory (default: the user cache folder, or SPFX_SAMPLE_CACHE_DIR) */
+    cacheDir?: string;
+    /** `cache prune`: remove entries not used for this long, e.g. "30d", "12h" */
+    olderThan?: string;
+    /** Print the result as JSON */
+    json?: boolean;
+};
+
+export type UpdateOptions = {
+    /** Ref to update to (default: the ref the sample was downloaded from) */
+    ref?: string;
+    /** Update to the head of this pull request instead */
+    pr?: string | number;
+    method?: Method;
+    /** Override where the sample is fetched from (default: as recorded in its manifest) */
+    host?: string;
+    provider?: string;
+    source?: string;
+    token?: string;
+    verbose?: boolean;
+    noColor?: boolean;
+
+    /** Only report what would change */
+    dryRun?: boolean;
+};
+
+export type DiffOptions = {
+    /** Ref to compare with (default: the commit the sample was downloaded at) */
+    ref?: string;
+    /** Compare with the head of this pull request instead */
+    pr?: string | number;
+    method?: Method;
+    /** Override where the sample is fetched from (default: as recorded in its manifest) */
+    host?: string;
+    provider?: string;
+    source?: string;
+    token?: string;
+    verbose?: boolean;
+    noColor?: boolean;
+
+    /** Print a diffstat instead of the patch */
+    stat?: boolean;
+    /** Print only the changed paths */
+    nameOnly?: boolean;
+    /** Also write the patch to this file */
+    output?: string;
+};
+
+export type SparseRepoOptions = {
+    /** A folder of the working copy made by `get --mode repo` (default: the current folder) */
+    repoDir?: string;
+    /** Repository folder that holds the samples (default "samples") */
+    path?: string;
+    /** `remove`: drop samples with uncommitted changes too */
+    force?: boolean;
+    verbose?: boolean;
+    noColor?: boolean;
+};
+
+export type NewSampleOptions = {
+    /** A folder of the working copy made by `get --mode repo` (default: the current folder) */
+    repoDir?: string;
+    /** Repository folder that holds the samples (default "samples") */
+    path?: string;
+    /** SPFx project to copy into the new sample folder (without node_modules and build output) */
+    from?: string;
+    /** GitHub account to credit (default: the fork's owner, when `origin` is a fork) */
+    author?: string;
+    /** Replace an existing README.md / assets/sample.json */
+    force?: boolean;
+    verbose?: boolean;
+    noColor?: boolean;
+};
@@ -0,0 +1,41 @@
+import fs from "node:fs/promises";
+
+/**
+ * Git tree entry modes. Regular files are `100644`; trees (`040000`) never reach the file writers.
+ */
+export const MODE_FILE = "100644";
+export const MODE_EXECUTABLE = "100755";
+export const MODE_SYMLINK = "120000";
+/** A submodule ("gitlink"): a commit of another repository, with no content in this one */
+export const MODE_SUBMODULE = "160000";
+
+/**
+ * Write a blob the way `git checkout` does: executables get `+x` (subject to the umask), symlinks are created
+ * as links to the blob's content. Where symlinks cannot be created (Windows without Developer Mode) the link
+ * is written as a plain file holding its target, like git with `core.symlinks=false`.
+ */
+export async function writeBlobFile(filePath: string, bytes: Uint8Array, mode?: string): Promise<void> {
+    if (mode === MODE_SYMLINK) {
+        await fs.rm(filePath, { force: true });
+        try {
+            await fs.symlink(Buffer.from(bytes).toString("utf8"), filePath);
+            return;
+        } catch (e) {
+            if (!(e instanceof Error && "code" in e && (e.code === "EPERM" || e.code === "EACCES"))) throw e;
+        }
+    }
+    const executable = mode === MODE_EXECUTABLE;
+    await fs.writeFile(filePath, bytes, { mode: executable ? 0o755 : 0o644 });
+    // the mode above only applies to a new file; one written over (--force, --resume) keeps its old bits otherwise
+    const current = (await fs.stat(filePath)).mode & 0o777;
+    const wanted = executable ? current | ((current & 0o444) >> 2) : current & ~0o111;
+    if (wanted !== current) await fs.chmod(filePath, wanted);
+}
+
+/**
+ * Read a file's blob content as git would hash it: a symlink's content is its target path.
+ */
+export async function readBlobFile(filePath: string): Promise<Buffer> {
+    const st = await fs.lstat(filePath);
+    return st.isSymbolicLink() ? Buffer.from(await fs.readlink(filePath), "utf8") : fs.readFile(filePath);
+}
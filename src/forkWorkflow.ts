@@ -0,0 +1,83 @@
+import path from "node:path";
+import type { RequestContext, SourceProvider } from "./sourceProvider";
+
+/** The fork `origin` points to in a `--mode repo --fork` working copy; `owner` is unknown for a fork given as a URL. */
+export type ForkRemote = { url: string; owner?: string };
+
+/** What to run next in a contributor working copy: push the branch, then open a pull request. */
+export type ContributeHints = {
+    branch: string;
+    /** e.g. "git push -u origin my-change" */
+    push: string;
+    /** A `gh pr create` command (GitHub only) */
+    pullRequest?: string;
+    /** The host's page for opening the pull request */
+    pullRequestUrl?: string;
+};
+
+/**
+ * Whether a `--fork` value is a clone URL or a path (a fork with another name, or a local bare repository) rather
+ * than the user or group that owns the fork.
+ */
+export function isForkLocation(value: string): boolean {
+    return isRemoteUrl(value) || /^(\.|\/|\\|[a-z]:[\\/])/i.test(value) || value.endsWith(".git");
+}
+
+/** https://, ssh:// and file:// URLs, and scp-like `git@github.com:user/repo.git` */
+function isRemoteUrl(value: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(value) || /^[^/\\@]+@[^/\\:]+:/.test(value);
+}
+
+/**
+ * Where the fork of `repo` is: a `--fork` URL or path as given (relative paths resolved against the current
+ * folder), `--fork <user>` on the provider's host, or, for `--fork` without a value, the fork of the user the
+ * token belongs to (found with the host's API; on github.com the token may come from `gh auth token`).
+ *
+ * @throws Error when the user cannot be detected, or a user name is given for a `--source` folder.
+ */
+export async function resolveForkRemote(args: {
+    provider: SourceProvider;
+    repo: string;
+    fork: string | true;
+} & RequestContext): Promise<ForkRemote> {
+    const { provider, repo, fork } = args;
+    if (typeof fork === "string" && isForkLocation(fork)) {
+        return { url: isRemoteUrl(fork) ? fork : path.resolve(fork) };
+    }
+    if (!provider.cloneUrl || provider.name === "local") {
+        throw new Error(`With --source, --fork takes the fork's clone URL or path, not a user name.`);
+    }
+    let owner = typeof fork === "string" ? fork.trim() : undefined;
+    if (!owner) {
+        if (!provider.currentUser || !args.token) {
+            throw new Error(`Could not tell whose fork to use: pass --fork <user>${provider.currentUser ? `, or sign in (${provider.tokenEnv.join(" / ")} or --token)` : ""}.`);
+        }
+        owner = await provider.currentUser({ token: args.token, verbose: args.verbose, signal: args.signal });
+    }
+    return { url: provider.cloneUrl(owner, repo), owner };
+}
+
+/**
+ * The commands that push a contributor branch and open a pull request from it into `base` of `owner/repo`.
+ * Without a fork the branch is pushed to the sample repository itself (which needs write access).
+ */
+export function contributeHints(args: {
+    provider: SourceProvider;
+    owner: string;
+    repo: string;
+    base: string;
+    branch: string;
+    fork?: ForkRemote;
+}): ContributeHints {
+    const { provider, owner, repo, base, branch, fork } = args;
+    const hints: ContributeHints = { branch, push: `git push -u origin ${branch}` };
+    const head = fork?.owner ?? (fork ? undefined : owner);
+    if (!head) return hints;
+    if (provider.name === "github") {
+        const target = provider.host === "github.com" ? `${owner}/${repo}` : `${provider.host}/${owner}/${repo}`;
+        hints.pullRequest = `gh pr create --repo ${target} --base ${base} --head ${fork ? `${head}:${branch}` : branch}`;
+    }
+    const url = provider.newPullRequestUrl?.({ owner, repo, base, forkOwner: head, branch });
+    if (url) hints.pullRequestUrl = url;
+    return hints;
+}
@@ -0,0 +1,81 @@
+import { spawnSync } from "node:child_process";
+
+export type TokenSource = "--token" | "GITHUB_TOKEN" | "GH_TOKEN" | "gh auth token";
+
+export type GitHubAuth = { token: string; source: TokenSource };
+
+/**
+ * Ask the GitHub CLI for its current token (`gh auth token`).
+ *
+ * @returns The token, or `null` when gh is not installed, not signed in, or does not answer within a few seconds.
+ */
+export function readGhCliToken(): string | null {
+    try {
+        const res = spawnSync("gh", ["auth", "token"], { encoding: "utf8", shell: false, windowsHide: true, timeout: 5000 });
+        if (res.status === 0) {
+            const token = (res.stdout || "").trim();
+            return token || null;
+        }
+    } catch {
+        // ignore
+    }
+    return null;
+}
+
+/**
+ * Discover a GitHub token for API requests, in order of precedence:
+ * 1. the `--token` flag
+ * 2. the `GITHUB_TOKEN` environment variable
+ * 3. the `GH_TOKEN` environment variable
+ * 4. `gh auth token` (GitHub CLI)
+ *
+ * @returns The token and where it came from, or `null` to stay anonymous.
+ */
+export function resolveGitHubToken(opts: {
+    token?: string;
+    verbose?: boolean;
+    env?: NodeJS.ProcessEnv;
+    readGhToken?: () => string | null;
+} = {}): GitHubAuth | null {
+    const env = opts.env ?? process.env;
+    const readGh = opts.readGhToken ?? readGhCliToken;
+
+    let auth: GitHubAuth | null = null;
+    if (opts.token?.trim()) auth = { token: opts.token.trim(), source: "--token" };
+    else if (env.GITHUB_TOKEN?.trim()) auth = { token: env.GITHUB_TOKEN.trim(), source: "GITHUB_TOKEN" };
+    else if (env.GH_TOKEN?.trim()) auth = { token: env.GH_TOKEN.trim(), source: "GH_TOKEN" };
+    else {
+        const gh = readGh();
+        if (gh) auth = { token: gh, source: "gh auth token" };
+    }
+
+    // never print the token itself
+    opts.verbose && console.error(`[debug] GitHub auth: ${auth ? `token from ${auth.source}` : "anonymous"}`);
+    return auth;
+}
+
+/**
+ * Discover a token for another git host (GitHub Enterprise Server, GitLab, Azure DevOps): the `--token` flag, then
+ * the host's environment variables in order (see `SourceProvider.tokenEnv`).
+ *
+ * @returns The token and where it came from, or `null` to stay anonymous.
+ */
+export function resolveHostToken(opts: {
+    token?: string;
+    tokenEnv: readonly string[];
+    host: string;
+    verbose?: boolean;
+    env?: NodeJS.ProcessEnv;
+}): { token: string; source: string } | null {
+    const env = opts.env ?? process.env;
+
+    let auth: { token: string; source: string } | null = null;
+    if (opts.token?.trim()) auth = { token: opts.token.trim(), source: "--token" };
+    else {
+        const name = opts.tokenEnv.find((n) => env[n]?.trim());
+        if (name) auth = { token: env[name]!.trim(), source: name };
+    }
+
+    opts.verbose && console.error(`[debug] ${opts.host} auth: ${auth ? `token from ${auth.source}` : "anonymous"}`);
+    return auth;
+}
@@ -1,9 +1,34 @@
 import path from "node:path";
 import fs from "node:fs/promises";
 
-type TreeItem = { path: string; type: "blob" | "tree"; sha: string };
+import { SampleNotFoundError } from "./suggestSamples";
+import { DEFAULT_SAMPLES_PATH, samplePathOf } from "./sampleTarget";
+import { fetchWithRetry } from "./http";
+import { gitBlobSha } from "./integrity";
+import { readBlobFile, writeBlobFile } from "./fileModes";
+import { readResumeState, startResumeState } from "./resumeState";
+import type { ResumeRecorder } from "./resumeState";
+import { readCachedBlob, readCachedTree, writeCachedBlob, writeCachedTree } from "./blobCache";
+import { tarballUrl } from "./githubTarball";
+import type { RequestContext, SourceProvider } from "./sourceProvider";
+
+/**
+ * An entry of a git tree listing. `mode` is git's file mode (`100644`, `100755` executable, `120000` symlink,
+ * `160000` submodule, `040000` tree); `commit` entries are submodules.
+ */
+export type TreeItem = { path: string; type: "blob" | "tree" | "commit"; sha: string; size?: number; mode?: string };
 type TreeResponse = { tree: TreeItem[]; truncated?: boolean; message?: string };
 
+/**
+ * Options naming the host to talk to; github.com when `provider` is not set.
+ *
+ * With a GitHub token, API requests are authenticated (5,000 req/hr instead of 60, and private repos become
+ * reachable) and file contents are read through the API instead of raw.githubusercontent.com.
+ */
+type ProviderContext = RequestContext & { provider?: SourceProvider };
+
+const API_ROOT = "https://api.github.com";
+
 /**
  * Options for downloading a subtree (a specific folder and its contents) from a GitHub repository.
  *
@@ -14,6 +39,8 @@ type TreeResponse = { tree: TreeItem[]; truncated?: boolean; message?: string };
  * @property owner - The GitHub repository owner (for example: "pnp").
  * @property repo - The repository name (for example: "sp-dev-fx-webparts").
  * @property ref - The Git reference to download from; can be a branch name, tag, or commit SHA.
+ * @property commit - The commit SHA `ref` was resolved to. Every request then uses it, so the files all come
+ *                    from one commit, while the cached listing stays keyed by `ref` for `--offline`.
  * @property sampleFolder - The path to the folder inside the repository that should be downloaded
  *                          (for example: "react-hello-world").
  * @property destDir - Local destination directory where the downloaded files will be written.
@@ -21,6 +48,15 @@ type TreeResponse = { tree: TreeItem[]; truncated?: boolean; message?: string };
  * @property onProgress - Optional callback invoked to report progress. Called with (done, total, filePath)
  *                        where `done` is the number of files already processed, `total` is the total
  *                        number of files to process, and `filePath` is the path of the file most recently processed.
+ * @property cacheDir - Optional blob cache directory (see blobCache.ts). Cached files are not downloaded again,
+ *                      and downloaded files and the tree listing are added to it.
+ * @property offline - Serve the tree listing and every file from `cacheDir` without any request.
+ * @property provider - Where to download from (default: github.com, see {@link githubProvider}).
+ * @property resumable - Record progress in a state file in `destDir`. When `destDir` holds files from an
+ *                       interrupted run of the same tree, files whose size and blob hash already match are skipped.
+ * @property samplesPath - Repository folder holding the samples (default "samples", "" for the root).
+ * @property samples - The samples folder listing from {@link fetchSamplesFolder}, when already fetched
+ *                     (downloads of several samples share one listing).
  *
  * @example
  * // Example usage:
@@ -39,12 +75,20 @@ export type DownloadSubtreeOptions = {
     owner: string;          // e.g. "pnp"   
     repo: string;           // e.g. "sp-dev-fx-webparts"
     ref: string;            // branch/tag/sha
+    commit?: string;        // resolved SHA of ref
     sampleFolder: string;   // e.g. "react-hello-world"
+    samplesPath?: string;   // default "samples"
     destDir: string;        // where to write files
     concurrency?: number;   // default 8
     onProgress?: (done: number, total: number, filePath: string) => void;
     signal?: AbortSignal;
     verbose?: boolean;
+    token?: string;         // GitHub token (see RequestContext)
+    cacheDir?: string;
+    offline?: boolean;
+    resumable?: boolean;
+    samples?: TreeItem[];
+    provider?: SourceProvider;
 };
 
 
@@ -81,7 +125,7 @@ export type DownloadSubtreeOptions = {
  *   return await fetchData();
  * });
  */
-function createSemaphore(max: number) {
+export function createSemaphore(max: number) {
     let running = 0;
     const queue: Array<() => void> = [];
     const next = () => {
@@ -113,33 +157,56 @@ function createSemaphore(max: number) {
  *  from the Fetch API will also propagate as rejected promises.
  *
  * @remarks
- * - Adds a "User-Agent": "@pnp/spfx-sample" header to the request.
+ * - Adds a "User-Agent": "@pnp/spfx-sample" header to the request, plus "Authorization" when a token is set.
  * - On non-ok responses, prefers the API-provided error message (data.message)
  *   when available; otherwise includes the HTTP status and statusText.
- * - Detects GitHub anonymous rate limiting: when status is 403 and the
- *   "X-RateLimit-Remaining" header equals "0", throws a specific rate-limit error
- *   advising to retry later or use the git method.
+ * - Detects GitHub rate limiting: when status is 403/429 and the "X-RateLimit-Remaining"
+ *   header equals "0", throws a specific rate-limit error with the limit and reset time.
  * - Uses response.json() to parse the body; callers should expect parsing errors
  *   if the response is not valid JSON.
  */
-async function fetchJson<T>(url: string, signal?: AbortSignal, verbose?: boolean): Promise<T> {
-    verbose && console.error(`[debug] GET ${url}`);
-    const res = await fetch(url, { headers: { "User-Agent": "@pnp/spfx-sample" }, signal });
-    const data = (await res.json()) as any;
-
-    if (!res.ok) {
-        // friendly rate-limit message
-        if (res.status === 403 && res.headers.get("X-RateLimit-Remaining") === "0") {
-            throw new Error(
-                "GitHub anonymous rate limit hit (60/hr per IP). Try again later, or install/use the git method."
-            );
-        }
-        throw new Error(`GitHub API error: ${data?.message ?? `${res.status} ${res.statusText}`}`);
-    }
+async function fetchJson<T>(url: string, ctx: RequestContext = {}): Promise<T> {
+    ctx.verbose && console.error(`[debug] GET ${url}`);
+    const res = await fetchWithRetry(url, { headers: githubHeaders(ctx.token), signal: ctx.signal });
+    const data = (await res.json().catch(() => null)) as any;
+
+    if (!res.ok) throw githubError(res, data, ctx.token);
 
     return data as T;
 }
 
+function githubHeaders(token?: string, accept?: string): Record<string, string> {
+    const headers: Record<string, string> = { "User-Agent": "@pnp/spfx-sample" };
+    if (accept) headers.Accept = accept;
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return headers;
+}
+
+/**
+ * Build a friendly error for a failed GitHub API response (rate limits, bad credentials, private repos).
+ */
+function githubError(res: Response, data: any, token?: string): Error {
+    if ((res.status === 403 || res.status === 429) && res.headers.get("X-RateLimit-Remaining") === "0") {
+        const limit = res.headers.get("X-RateLimit-Limit");
+        const reset = Number(res.headers.get("X-RateLimit-Reset"));
+        const resetAt = reset ? ` Resets at ${new Date(reset * 1000).toLocaleTimeString()}.` : "";
+        if (token) {
+            return new Error(`GitHub API rate limit hit (${limit ?? "5000"}/hr for your token).${resetAt} Try again later, or use the git method.`);
+        }
+        return new Error(
+            `GitHub anonymous rate limit hit (${limit ?? "60"}/hr per IP).${resetAt} ` +
+            "Set GITHUB_TOKEN, pass --token, or sign in with `gh auth login` for 5,000/hr — or install/use the git method."
+        );
+    }
+    if (res.status === 401 && token) {
+        return new Error("GitHub rejected the token (401 Bad credentials). Check GITHUB_TOKEN / GH_TOKEN / --token.");
+    }
+    if (res.status === 404 && !token) {
+        return new Error(`GitHub API error: ${data?.message ?? "Not Found"}. If the repository is private, set GITHUB_TOKEN or pass --token.`);
+    }
+    return new Error(`GitHub API error: ${data?.message ?? `${res.status} ${res.statusText}`}`);
+}
+
 /**
  * Fetches a Git tree object from the GitHub REST API for the specified repository.
  *
@@ -148,6 +215,7 @@ async function fetchJson<T>(url: string, signal?: AbortSignal, verbose?: boolean
  * and, if `recursive` is true, appends the `?recursive=1` query to retrieve the entire
  * subtree (all nested trees and blobs).
  *
+ * @param api - The API root (https://api.github.com, or https://<host>/api/v3 for GitHub Enterprise Server).
  * @param owner - The owner (user or organization) of the GitHub repository.
  * @param repo - The name of the GitHub repository.
  * @param treeish - A tree-ish reference that identifies the tree to fetch (branch name, tag, or commit SHA).
@@ -162,9 +230,268 @@ async function fetchJson<T>(url: string, signal?: AbortSignal, verbose?: boolean
  * - The request is subject to GitHub API rate limits and may require authentication depending on repository visibility and rate usage.
  * - The exact shape of TreeResponse is defined elsewhere in the codebase and mirrors the GitHub API's tree response structure.
  */
-async function fetchTree(owner: string, repo: string, treeish: string, recursive = false, signal?: AbortSignal, verbose?: boolean): Promise<TreeResponse> {
-    const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}${recursive ? "?recursive=1" : ""}`;
-    return fetchJson<TreeResponse>(url, signal, verbose);
+async function fetchTree(api: string, owner: string, repo: string, treeish: string, recursive = false, ctx: RequestContext = {}): Promise<TreeResponse> {
+    const url = `${api}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}${recursive ? "?recursive=1" : ""}`;
+    return fetchJson<TreeResponse>(url, ctx);
+}
+
+function encodeRepoPath(p: string): string {
+    return p.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * The GitHub provider: github.com by default, or a GitHub Enterprise Server at `webRoot`
+ * (API under `<webRoot>/api/v3`, file contents through the contents API).
+ */
+export function githubProvider(webRoot = "https://github.com"): SourceProvider {
+    const web = webRoot.replace(/\/+$/, "");
+    const host = new URL(web).host;
+    const dotCom = /^(www\.)?github\.com$/i.test(host);
+    const api = dotCom ? API_ROOT : `${web}/api/v3`;
+
+    return {
+        name: "github",
+        host: dotCom ? "github.com" : host,
+        tokenEnv: dotCom ? ["GITHUB_TOKEN", "GH_TOKEN"] : ["GH_ENTERPRISE_TOKEN", "GITHUB_ENTERPRISE_TOKEN"],
+        cloneUrl: (owner, repo) => `${dotCom ? "https://github.com" : web}/${owner}/${repo}.git`,
+
+        // walks from the root tree down to the folder, one request per path segment
+        async listFolder({ owner, repo, ref, path: dir, ...ctx }) {
+            let tree = await fetchTree(api, owner, repo, ref, false, ctx);
+            if (tree.message) throw new Error(tree.message);
+            for (const segment of dir.split("/").filter(Boolean)) {
+                const sub = tree.tree.find(t => t.type === "tree" && t.path === segment);
+                if (!sub) throw new Error(`Could not find /${dir} at ${owner}/${repo}@${ref}`);
+                tree = await fetchTree(api, owner, repo, sub.sha, false, ctx);
+            }
+            return tree.tree;
+        },
+
+        async listTree({ owner, repo, sha, ...ctx }) {
+            const tree = await fetchTree(api, owner, repo, sha, true, ctx);
+            return { items: tree.tree, truncated: tree.truncated };
+        },
+
+        // raw.githubusercontent.com is not API rate limited, but cannot serve private repos or GHES
+        async fetchFile({ owner, repo, ref, path: filePath, ...ctx }) {
+            const viaApi = !!ctx.token || !dotCom;
+            const url = viaApi
+                ? `${api}/repos/${owner}/${repo}/contents/${encodeRepoPath(filePath)}?ref=${encodeURIComponent(ref)}`
+                : `https://raw.githubusercontent.com/${owner}/${repo}/${encodeURIComponent(ref)}/${filePath}`;
+            ctx.verbose && console.error(`[debug] GET ${url}`);
+            const res = await fetchWithRetry(url, { headers: githubHeaders(ctx.token, viaApi ? "application/vnd.github.raw" : undefined), signal: ctx.signal });
+            if (res.status === 404) return null;
+            if (!res.ok) {
+                if (viaApi) throw githubError(res, await res.json().catch(() => null), ctx.token);
+                throw new Error(`HTTP ${res.status} ${res.statusText} for ${filePath}`);
+            }
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        async fetchBlob({ owner, repo, sha, ...ctx }) {
+            const url = `${api}/repos/${owner}/${repo}/git/blobs/${sha}`;
+            ctx.verbose && console.error(`[debug] GET ${url}`);
+            const res = await fetchWithRetry(url, { headers: githubHeaders(ctx.token, "application/vnd.github.raw"), signal: ctx.signal });
+            if (!res.ok) throw githubError(res, await res.json().catch(() => null), ctx.token);
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        tarballUrl: (owner, repo, ref, token) => dotCom
+            ? tarballUrl(owner, repo, ref, token)
+            : `${api}/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`,
+
+        async resolveCommit({ owner, repo, ref, ...ctx }) {
+            const commit = await fetchJson<{ sha: string }>(`${api}/repos/${owner}/${repo}/commits/${encodeRepoPath(ref)}`, ctx);
+            return commit.sha;
+        },
+
+        async lastCommitBefore({ owner, repo, ref, path: p, before, ...ctx }) {
+            const query = new URLSearchParams({ sha: ref, path: p, until: before.toISOString(), per_page: "1" });
+            const commits = await fetchJson<Array<{ sha: string }>>(`${api}/repos/${owner}/${repo}/commits?${query}`, ctx);
+            return commits[0]?.sha ?? null;
+        },
+
+        async lastCommitDate({ owner, repo, ref, path: p, ...ctx }) {
+            const query = new URLSearchParams({ sha: ref, path: p, per_page: "1" });
+            const commits = await fetchJson<Array<{ commit?: { committer?: { date?: string }; author?: { date?: string } } }>>(`${api}/repos/${owner}/${repo}/commits?${query}`, ctx);
+            const c = Array.isArray(commits) ? commits[0]?.commit : undefined;
+            return c?.committer?.date ?? c?.author?.date ?? null;
+        },
+
+        async pullRequestHead({ owner, repo, number, ...ctx }) {
+            const pull = await fetchJson<{ head: { sha: string } }>(`${api}/repos/${owner}/${repo}/pulls/${number}`, ctx);
+            return pull.head.sha;
+        },
+
+        pullRef: (number) => `refs/pull/${number}/head`,
+
+        async currentUser(ctx) {
+            return (await fetchJson<{ login: string }>(`${api}/user`, ctx)).login;
+        },
+
+        newPullRequestUrl: ({ owner, repo, base, forkOwner, branch }) =>
+            `${dotCom ? "https://github.com" : web}/${owner}/${repo}/compare/${base}...${forkOwner}:${branch}?expand=1`
+    };
+}
+
+const GITHUB = githubProvider();
+
+function providerOf(ctx: { provider?: SourceProvider }): SourceProvider {
+    return ctx.provider ?? GITHUB;
+}
+
+/**
+ * Returns the (non-recursive) listing of the samples folder.
+ *
+ * @param samplesPath - Repository folder holding the samples ("samples" by default, "" for the root).
+ * @returns One `tree` entry per sample folder (plus any files next to them).
+ * @throws Error if the root tree cannot be fetched or the samples folder does not exist.
+ */
+async function fetchSamplesTree(owner: string, repo: string, ref: string, ctx: ProviderContext = {}, samplesPath: string = DEFAULT_SAMPLES_PATH): Promise<TreeItem[]> {
+    return providerOf(ctx).listFolder({ owner, repo, ref, path: samplesPath, signal: ctx.signal, verbose: ctx.verbose, token: ctx.token });
+}
+
+/**
+ * Options for listing the sample folders of a GitHub repository via the tree API.
+ */
+export type ListSamplesOptions = {
+    owner: string;
+    repo: string;
+    ref: string;
+    /** Repository folder holding the samples (default "samples", "" for the root) */
+    samplesPath?: string;
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    provider?: SourceProvider;
+};
+
+/**
+ * Lists the entries of the repository's samples folder (one `tree` entry per sample) with the
+ * requests of {@link listSamplesViaGitHubSubtree}.
+ */
+export async function fetchSamplesFolder(opts: ListSamplesOptions): Promise<TreeItem[]> {
+    return fetchSamplesTree(opts.owner, opts.repo, opts.ref, opts, opts.samplesPath);
+}
+
+/**
+ * Lists the sample folder names under the repository's top-level "samples" folder using the GitHub tree API.
+ *
+ * Only two API requests are made (root tree and `/samples` tree), so this is cheap even for very large repos.
+ *
+ * @returns Sample folder names (e.g. "react-hello-world") in the order returned by the API.
+ */
+export async function listSamplesViaGitHubSubtree(opts: ListSamplesOptions): Promise<string[]> {
+    if (opts.signal?.aborted) throw new Error("Listing aborted");
+    const samples = await fetchSamplesFolder(opts);
+    return samples.filter(t => t.type === "tree").map(t => t.path);
+}
+
+/**
+ * Options identifying one sample folder in a GitHub repository.
+ */
+export type SampleTreeOptions = {
+    owner: string;
+    repo: string;
+    ref: string;
+    sampleFolder: string;   // e.g. "react-hello-world"
+    samplesPath?: string;   // folder holding the samples, default "samples"
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    /** The samples folder listing, when already fetched (saves two requests) */
+    samples?: TreeItem[];
+    provider?: SourceProvider;
+};
+
+/**
+ * Lists every entry (files and folders, recursively) of `<samplesPath>/<sampleFolder>` using the GitHub tree API.
+ *
+ * Item paths are relative to the sample folder; blob items include their `size` in bytes.
+ *
+ * @throws SampleNotFoundError if the sample folder does not exist at that ref (with the closest existing names).
+ * @throws Error if the listing is truncated.
+ */
+export async function fetchSampleTree(opts: SampleTreeOptions): Promise<TreeItem[]> {
+    return (await fetchSampleTreeWithSha(opts)).items;
+}
+
+/**
+ * Like {@link fetchSampleTree}, also returning the SHA of the sample folder's tree (which changes whenever
+ * anything in the sample does).
+ */
+export async function fetchSampleTreeWithSha(opts: SampleTreeOptions): Promise<{ sha: string; items: TreeItem[] }> {
+    const { owner, repo, ref, sampleFolder } = opts;
+    const samplePath = samplePathOf(sampleFolder, opts.samplesPath);
+
+    // root tree → samples folder tree
+    const samples = opts.samples ?? await fetchSamplesFolder(opts);
+    const sampleTree = samples.find(t => t.type === "tree" && t.path === sampleFolder);
+    if (!sampleTree) {
+        const available = samples.filter(t => t.type === "tree").map(t => t.path);
+        throw new SampleNotFoundError(`Sample folder not found: ${samplePath} at ${ref}`, sampleFolder, available);
+    }
+
+    // sample subtree (recursive)
+    const sample = await providerOf(opts).listTree({ owner, repo, ref, path: samplePath, sha: sampleTree.sha, signal: opts.signal, verbose: opts.verbose, token: opts.token });
+    if (sample.truncated) {
+        // extremely unlikely for a single sample, but handle anyway
+        throw new Error(`Tree listing truncated for ${samplePath}. Use the git method.`);
+    }
+    return { sha: sampleTree.sha, items: sample.items };
+}
+
+/**
+ * Returns the date of the most recent commit touching `path` at `ref`, via the host's commits API.
+ *
+ * @returns An ISO 8601 timestamp, or `null` when no commit touches that path (or the host cannot tell).
+ */
+export async function fetchLastCommitDate(opts: { owner: string; repo: string; ref: string; path: string; signal?: AbortSignal; verbose?: boolean; token?: string; provider?: SourceProvider }): Promise<string | null> {
+    const { provider, ...request } = opts;
+    return (await providerOf({ provider }).lastCommitDate?.(request)) ?? null;
+}
+
+/**
+ * Options for fetching a single file's contents from a GitHub repository.
+ */
+export type FetchRawFileOptions = {
+    owner: string;
+    repo: string;
+    ref: string;
+    path: string;           // full repository path, e.g. "samples/react-hello-world/package.json"
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    provider?: SourceProvider;
+};
+
+/**
+ * Downloads a single file's contents.
+ *
+ * On github.com, anonymous requests use raw.githubusercontent.com (not API rate limited). With a token the
+ * contents API is used instead, because raw URLs cannot serve private repositories.
+ *
+ * @returns The file bytes, or `null` when the file does not exist at that ref (HTTP 404).
+ * @throws Error for any other non-OK HTTP response.
+ */
+export async function fetchRawFile(opts: FetchRawFileOptions): Promise<Uint8Array | null> {
+    const { provider, ...request } = opts;
+    return providerOf({ provider }).fetchFile(request);
+}
+
+/**
+ * Downloads a blob's contents by SHA (through the API, so it works for private repositories).
+ */
+async function fetchBlob(owner: string, repo: string, sha: string, ctx: ProviderContext): Promise<Uint8Array> {
+    return providerOf(ctx).fetchBlob({ owner, repo, sha, signal: ctx.signal, verbose: ctx.verbose, token: ctx.token });
+}
+
+/**
+ * Convenience wrapper around {@link fetchRawFile} that decodes the file as UTF-8 text.
+ */
+export async function fetchRawText(opts: FetchRawFileOptions): Promise<string | null> {
+    const bytes = await fetchRawFile(opts);
+    return bytes ? new TextDecoder("utf-8").decode(bytes) : null;
 }
 
 /**
@@ -188,101 +515,193 @@ async function ensureDirForFile(filePath: string): Promise<void> {
  * Downloads all files from a sample subfolder in a GitHub repository using the GitHub tree API
  * (to enumerate files) and raw.githubusercontent.com (to fetch file contents).
  *
- * The function expects the repository to have a top-level "samples" folder and will locate the
- * specific sample by name (samples/<sampleFolder>). It enumerates the sample subtree recursively,
+ * The function expects the repository to have a samples folder ("samples" unless `samplesPath` says otherwise)
+ * and will locate the specific sample by name (<samplesPath>/<sampleFolder>). It enumerates the sample subtree recursively,
  * filters for blob entries (files), and downloads each file in parallel (bounded by a semaphore).
  * Directory structure from the sample is recreated under the provided destination directory.
  *
  * @remarks
- * - Uses a helper `fetchTree(owner, repo, refOrSha, recursive)` to list git trees. If that helper
- *   returns an error object (has a `message`), the function will throw with that message.
+ * - Trees and files come from `provider` (github.com unless set), so the same walk works for GitHub
+ *   Enterprise, GitLab and Azure DevOps hosts.
  * - If the recursive tree listing is truncated, this function will throw and recommend using the
  *   alternate git-based method.
  * - Files are fetched from raw.githubusercontent.com using the provided ref (URL-encoded) and the
- *   full path `samples/<sampleFolder>/<relativePath>`.
+ *   full path `<samplesPath>/<sampleFolder>/<relativePath>` (or by blob SHA through the API when a token is set).
+ * - With `cacheDir`, files whose blob SHA is already cached are copied from the cache instead; with
+ *   `offline`, the tree listing comes from the cache too and nothing is requested.
  * - Destination directories are created as needed before writing files.
+ * - Entry modes are honoured like `git checkout`: executables get `+x` and symlinks are created as links.
+ *   Submodules (`commit` entries) have no content in this repository and are not downloaded.
  * - Progress is reported via an optional callback after each successfully written file.
  *
  * @param opts - Options describing which repository/sample to download and how.
  * @param opts.owner - GitHub repository owner (user or organization).
  * @param opts.repo - GitHub repository name.
  * @param opts.ref - Git reference to use (branch name, tag, or commit SHA).
- * @param opts.sampleFolder - Name of the sample folder inside the repository's top-level "samples" directory.
+ * @param opts.sampleFolder - Name of the sample folder inside the repository's samples folder.
  * @param opts.destDir - Local filesystem directory to write the downloaded files into. The sample's
  *                       relative paths are preserved under this directory.
  * @param opts.concurrency - Optional. Maximum number of concurrent HTTP downloads. Defaults to 8.
  * @param opts.onProgress - Optional. Callback invoked after each file is written with signature
  *                          (done: number, total: number, filePath: string) where `filePath` is the
- *                          repository path (samples/<sampleFolder>/<relativePath>) of the file just downloaded.
+ *                          repository path (<samplesPath>/<sampleFolder>/<relativePath>) of the file just downloaded.
  *
  * @async
- * @returns A Promise that resolves when all files have been downloaded and written to disk.
+ * @returns The sample's file (blob) entries, once every file has been downloaded, verified against its blob SHA
+ *          and written to disk, followed by any submodule (`commit`) entries that were skipped.
  *
  * @throws Error if:
- * - the repository root or expected "samples" tree cannot be found,
- * - the requested sample folder under "samples" does not exist,
+ * - the repository root or expected samples folder cannot be found,
+ * - the requested sample folder does not exist,
  * - the recursive tree listing is truncated,
  * - no files (blobs) are found in the sample folder,
  * - any HTTP request for a file returns a non-OK response,
+ * - a file's content still does not match its blob SHA after re-downloading it,
  * - file system operations (directory creation or file writes) fail,
  * - or if the underlying `fetchTree` helper returns an error message.
  */
-export async function downloadSampleViaGitHubSubtree(opts: DownloadSubtreeOptions): Promise<void> {
+export async function downloadSampleViaGitHubSubtree(opts: DownloadSubtreeOptions): Promise<TreeItem[]> {
     const { owner, repo, ref, sampleFolder, destDir } = opts;
+    const at = opts.commit ?? ref;
     const concurrency = opts.concurrency ?? 8;
     const signal = opts.signal;
 
     if (signal?.aborted) throw new Error("Download aborted");
 
-    // root tree
-    const root = await fetchTree(owner, repo, ref, false, opts.signal, opts.verbose);
-    if (root.message) throw new Error(root.message);
-
-    const samplesTree = root.tree.find(t => t.type === "tree" && t.path === "samples");
-    if (!samplesTree) throw new Error(`Could not find /samples at ${owner}/${repo}@${ref}`);
-
-    // /samples tree
-    const samples = await fetchTree(owner, repo, samplesTree.sha, false, opts.signal, opts.verbose);
-    const sampleTree = samples.tree.find(t => t.type === "tree" && t.path === sampleFolder);
-    if (!sampleTree) throw new Error(`Sample folder not found: samples/${sampleFolder} at ${ref}`);
-
-    // sample subtree (recursive)
-    const sample = await fetchTree(owner, repo, sampleTree.sha, true, opts.signal, opts.verbose);
-    if (sample.truncated) {
-        // extremely unlikely for a single sample, but handle anyway
-        throw new Error(`Tree listing truncated for samples/${sampleFolder}. Use the git method.`);
+    const cacheDir = opts.cacheDir;
+    const samplePath = samplePathOf(sampleFolder, opts.samplesPath);
+    const host = providerOf(opts).host;
+    const treeKey = { owner, repo, ref, samplePath, ...(host !== "github.com" ? { host } : {}) };
+    let items: TreeItem[];
+    let treeSha: string | null = null;
+    if (opts.offline) {
+        const cached = cacheDir ? await readCachedTree(cacheDir, treeKey) : null;
+        if (!cached) {
+            throw new Error(`${samplePath} at ${owner}/${repo}@${ref} is not in the local cache. Download it once without --offline first.`);
+        }
+        items = cached;
+    } else {
+        ({ items, sha: treeSha } = await fetchSampleTreeWithSha({ owner, repo, ref: at, sampleFolder, samplesPath: opts.samplesPath, signal, verbose: opts.verbose, token: opts.token, samples: opts.samples, provider: opts.provider }));
+        if (cacheDir) await writeCachedTree(cacheDir, treeKey, items).catch(() => { /* cache is best effort */ });
     }
 
-    const blobs = sample.tree.filter(t => t.type === "blob");
-    if (blobs.length === 0) throw new Error(`No files found in samples/${sampleFolder}`);
+    const blobs = items.filter(t => t.type === "blob");
+    const submodules = items.filter(t => t.type === "commit");
+    if (blobs.length === 0) throw new Error(`No files found in ${samplePath}`);
 
     await fs.mkdir(destDir, { recursive: true });
 
+    // files already present from an interrupted run of the same tree
+    const skip = new Set<string>();
+    let progress: ResumeRecorder | null = null;
+    if (opts.resumable && treeSha) {
+        const previous = await readResumeState(destDir);
+        if (previous) {
+            if (previous.tree !== treeSha || previous.owner !== owner || previous.repo !== repo || previous.sample !== samplePath) {
+                throw new Error(
+                    `Cannot resume: ${samplePath} at ${owner}/${repo}@${ref} now resolves to a different tree ` +
+                    `(${previous.tree.slice(0, 7)} → ${treeSha.slice(0, 7)}). Run again without --resume to start over.`
+                );
+            }
+            for (const b of blobs) {
+                if (await fileMatchesBlob(path.join(destDir, b.path), b)) skip.add(b.path);
+            }
+            opts.verbose && console.error(`[debug] resuming: ${skip.size}/${blobs.length} files already downloaded`);
+        }
+        progress = await startResumeState(destDir, { owner, repo, ref, sample: samplePath, tree: treeSha, completed: [...skip] });
+    }
+
     const sem = createSemaphore(concurrency);
     let done = 0;
+    let failed = false;
 
-    await Promise.all(
+    // After the first failure no new files are started, but those in flight are finished (and recorded) so
+    // a resumed run does not fetch them again.
+    const results = await Promise.allSettled(
         blobs.map(b =>
             sem(async () => {
-                const rel = b.path; // path relative to samples/<sampleFolder>
-                const fullRepoPath = `samples/${sampleFolder}/${rel}`;
+                const rel = b.path; // path relative to the sample folder
+                const fullRepoPath = `${samplePath}/${rel}`;
 
                 if (opts.signal?.aborted) throw new Error("Download aborted");
+                if (failed) return;
 
-                const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${encodeURIComponent(ref)}/${fullRepoPath}`;
-                opts.verbose && console.error(`[debug] GET ${rawUrl}`);
-                const res = await fetch(rawUrl, { signal: opts.signal });
-                if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText} for ${fullRepoPath}`);
+                if (skip.has(rel)) {
+                    done++;
+                    opts.onProgress?.(done, blobs.length, fullRepoPath);
+                    return;
+                }
 
-                const bytes = new Uint8Array(await res.arrayBuffer());
+                let bytes = cacheDir ? await readCachedBlob(cacheDir, b.sha) : null;
+                if (bytes && gitBlobSha(bytes) !== b.sha) {
+                    opts.verbose && console.error(`[debug] cached blob ${b.sha.slice(0, 7)} is corrupt; ignoring it`);
+                    bytes = null;
+                }
+                if (bytes) {
+                    opts.verbose && console.error(`[debug] cache hit ${b.sha.slice(0, 7)} ${fullRepoPath}`);
+                } else {
+                    if (opts.offline) throw new Error(`${fullRepoPath} (blob ${b.sha.slice(0, 7)}) is not in the local cache.`);
+                    bytes = await downloadVerifiedBlob(owner, repo, at, fullRepoPath, b.sha, opts);
+                    if (cacheDir) await writeCachedBlob(cacheDir, b.sha, bytes).catch(() => { /* cache is best effort */ });
+                }
                 const outPath = path.join(destDir, rel);
 
                 await ensureDirForFile(outPath);
-                await fs.writeFile(outPath, bytes);
+                await writeBlobFile(outPath, bytes, b.mode);
+                await progress?.markDone(rel);
 
                 done++;
                 opts.onProgress?.(done, blobs.length, fullRepoPath);
+            }).catch((e) => {
+                failed = true;
+                throw e;
             })
         )
     );
+
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failure) throw failure.reason;
+    await progress?.finish();
+    return [...blobs, ...submodules];
+}
+
+async function fileMatchesBlob(filePath: string, blob: TreeItem): Promise<boolean> {
+    try {
+        const bytes = await readBlobFile(filePath);
+        if (blob.size !== undefined && bytes.length !== blob.size) return false;
+        return gitBlobSha(bytes) === blob.sha;
+    } catch {
+        return false;
+    }
+}
+
+const INTEGRITY_ATTEMPTS = 3;
+
+/**
+ * Download one file and check its bytes hash to the blob SHA from the tree listing.
+ *
+ * The first anonymous attempt uses raw.githubusercontent.com; on a mismatch (stale or truncated content from a
+ * proxy or CDN) the file is fetched again by SHA through the blob API, which cannot serve a different version.
+ *
+ * @throws Error when the content still does not match after {@link INTEGRITY_ATTEMPTS} attempts.
+ */
+async function downloadVerifiedBlob(owner: string, repo: string, ref: string, fullRepoPath: string, sha: string, opts: DownloadSubtreeOptions): Promise<Uint8Array> {
+    for (let attempt = 1; ; attempt++) {
+        // with a token, fetch by blob SHA through the API (works for private repos)
+        const bytes = opts.token || attempt > 1
+            ? await fetchBlob(owner, repo, sha, opts)
+            : await fetchRawFile({ owner, repo, ref, path: fullRepoPath, signal: opts.signal, verbose: opts.verbose, provider: opts.provider });
+        if (!bytes) throw new Error(`HTTP 404 Not Found for ${fullRepoPath}`);
+
+        const actual = gitBlobSha(bytes);
+        if (actual === sha) return bytes;
+
+        opts.verbose && console.error(`[debug] ${fullRepoPath}: expected blob ${sha.slice(0, 7)}, got ${actual.slice(0, 7)} (${bytes.byteLength} bytes); attempt ${attempt}/${INTEGRITY_ATTEMPTS}`);
+        if (attempt >= INTEGRITY_ATTEMPTS) {
+            throw new Error(
+                `Integrity check failed for ${fullRepoPath}: expected blob ${sha}, got ${actual} after ${attempt} attempts. ` +
+                "A proxy or CDN may be serving stale or truncated content; try again later or use the git method."
+            );
+        }
+    }
 }
@@ -0,0 +1,182 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import zlib from "node:zlib";
+import { Readable, pipeline } from "node:stream";
+import { readTar } from "./tar";
+import { SampleNotFoundError } from "./suggestSamples";
+import { fetchWithRetry } from "./http";
+import { createGitBlobHash, gitBlobSha } from "./integrity";
+import { MODE_EXECUTABLE, MODE_FILE, MODE_SYMLINK, writeBlobFile } from "./fileModes";
+import { writeCachedBlob, writeCachedTree } from "./blobCache";
+import { samplePathOf } from "./sampleTarget";
+import type { FileHandle } from "node:fs/promises";
+import type { ReadableStream } from "node:stream/web";
+import type { TreeItem } from "./githubPartialSubtree";
+
+/**
+ * Options for downloading a sample from the repository archive.
+ *
+ * @property url - Archive URL override (tests point this at a local server). Defaults to {@link tarballUrl}.
+ * @property onProgress - Called after each extracted file with the number of files written so far,
+ *                        the compressed bytes received and the file's repository path.
+ * @property cacheDir - Optional blob cache directory. Extracted files and the sample's listing are added to it
+ *                      (blob SHAs are computed while streaming), so later `--offline` gets work.
+ * @property host - Host name for the cache key, for repositories that are not on github.com.
+ */
+export type DownloadTarballOptions = {
+    owner: string;
+    repo: string;
+    ref: string;
+    sampleFolder: string;   // e.g. "react-hello-world"
+    samplesPath?: string;   // folder holding the samples, default "samples"
+    destDir: string;        // local folder to write into
+    token?: string;
+    url?: string;
+    cacheDir?: string;
+    host?: string;
+    signal?: AbortSignal;
+    verbose?: boolean;
+    onProgress?: (files: number, bytes: number, filePath: string) => void;
+};
+
+/**
+ * The gzipped tar archive URL for a ref.
+ *
+ * Anonymous downloads go straight to codeload.github.com (not API rate limited). With a token the API
+ * tarball endpoint is used instead; it redirects to a signed codeload URL, which also works for private repos.
+ */
+export function tarballUrl(owner: string, repo: string, ref: string, token?: string): string {
+    return token
+        ? `https://api.github.com/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`
+        : `https://codeload.github.com/${owner}/${repo}/tar.gz/${encodeURIComponent(ref)}`;
+}
+
+/**
+ * Download a single sample folder by streaming the ref's tarball.
+ *
+ * One HTTP request regardless of the sample's size. The archive is gunzipped and parsed as it arrives and only
+ * entries under `<samplesPath>/<sampleFolder>/` are written (with that prefix and the archive's top-level folder
+ * stripped). Archive entries are in path order, so the download stops as soon as the sample folder has been
+ * passed.
+ *
+ * @returns The extracted files with their git blob SHAs (computed while streaming).
+ * @throws SampleNotFoundError when the archive has no such sample folder.
+ * @throws Error on HTTP errors, aborts, or a corrupt archive.
+ */
+export async function downloadSampleViaTarball(opts: DownloadTarballOptions): Promise<TreeItem[]> {
+    const url = opts.url ?? tarballUrl(opts.owner, opts.repo, opts.ref, opts.token);
+    const samplePath = samplePathOf(opts.sampleFolder, opts.samplesPath);
+    const prefix = `${samplePath}/`;
+    const parentPrefix = prefix.slice(0, prefix.length - opts.sampleFolder.length - 1);
+    const destRoot = path.resolve(opts.destDir);
+
+    // our own controller, so we can stop the transfer once the sample has been extracted
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+        opts.verbose && console.error(`[debug] GET ${url}`);
+        const headers: Record<string, string> = { "User-Agent": "@pnp/spfx-sample" };
+        if (opts.token) headers.Authorization = `Bearer ${opts.token}`;
+        const res = await fetchWithRetry(url, { headers, signal: controller.signal });
+        if (!res.ok || !res.body) {
+            const hint = res.status === 404 && !opts.token ? " If the repository is private, set GITHUB_TOKEN or pass --token." : "";
+            throw new Error(`Archive download failed: HTTP ${res.status} ${res.statusText} for ${opts.owner}/${opts.repo}@${opts.ref}.${hint}`);
+        }
+
+        let received = 0;
+        const body = Readable.fromWeb(res.body as ReadableStream<Uint8Array>);
+        body.on("data", (chunk: Buffer) => { received += chunk.length; });
+        const gunzip = zlib.createGunzip();
+        pipeline(body, gunzip, () => { /* errors surface through the gunzip iterator */ });
+
+        const available = new Set<string>();
+        let matched = false;
+        let files = 0;
+        const items: TreeItem[] = [];
+        // the file being written, closed by the entry's end() or, when the stream fails mid-entry, below
+        let open: FileHandle | undefined;
+
+        try {
+            await readTar(gunzip, async (entry) => {
+                // archives wrap everything in one folder, e.g. "<owner>-<repo>-<sha>/" on GitHub
+                const rel = entry.path.split("/").slice(1).join("/");
+
+                if (!rel.startsWith(prefix)) {
+                    if (matched) return false;
+                    if (rel.startsWith(parentPrefix)) {
+                        const m = /^([^/]+)\//.exec(rel.slice(parentPrefix.length));
+                        if (m) available.add(m[1]);
+                    }
+                    return null;
+                }
+                matched = true;
+
+                const sub = rel.slice(prefix.length).replace(/\/$/, "");
+                if (!sub) return null;
+                const target = path.resolve(destRoot, sub);
+                if (!target.startsWith(destRoot + path.sep)) throw new Error(`Refusing to write outside the destination: ${entry.path}`);
+
+                if (entry.type === "directory") {
+                    await fs.mkdir(target, { recursive: true });
+                    return null;
+                }
+                if (entry.type === "symlink") {
+                    await fs.mkdir(path.dirname(target), { recursive: true });
+                    const bytes = Buffer.from(entry.linkname, "utf8");
+                    await writeBlobFile(target, bytes, MODE_SYMLINK);
+                    const sha = gitBlobSha(bytes);
+                    items.push({ path: sub, type: "blob", sha, size: bytes.length, mode: MODE_SYMLINK });
+                    if (opts.cacheDir) await writeCachedBlob(opts.cacheDir, sha, bytes).catch(() => { /* cache is best effort */ });
+                    files++;
+                    opts.onProgress?.(files, received, rel);
+                    return null;
+                }
+                // hard links and other special entries are skipped
+                if (entry.type !== "file") return null;
+
+                // git archives only carry 0644 / 0755
+                const mode = entry.mode & 0o111 ? MODE_EXECUTABLE : MODE_FILE;
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                const fh = open = await fs.open(target, "w", mode === MODE_EXECUTABLE ? 0o755 : 0o644);
+                const hash = createGitBlobHash(entry.size);
+                return {
+                    write: (chunk) => {
+                        hash.update(chunk);
+                        return fh.write(chunk);
+                    },
+                    end: async () => {
+                        open = undefined;
+                        await fh.close();
+                        const sha = hash.digest("hex");
+                        items.push({ path: sub, type: "blob", sha, size: entry.size, mode });
+                        if (opts.cacheDir) {
+                            await writeCachedBlob(opts.cacheDir, sha, await fs.readFile(target)).catch(() => { /* cache is best effort */ });
+                        }
+                        files++;
+                        opts.onProgress?.(files, received, rel);
+                    }
+                };
+            });
+        } finally {
+            // a leaked handle would also keep the staged folder from being removed on Windows
+            await open?.close().catch(() => { /* already failing */ });
+        }
+
+        if (!matched) {
+            throw new SampleNotFoundError(`Sample folder not found: ${samplePath} at ${opts.ref}`, opts.sampleFolder, [...available]);
+        }
+        if (opts.cacheDir) {
+            const key = { owner: opts.owner, repo: opts.repo, ref: opts.ref, samplePath, ...(opts.host ? { host: opts.host } : {}) };
+            await writeCachedTree(opts.cacheDir, key, items).catch(() => { /* cache is best effort */ });
+        }
+        return items;
+    } catch (e) {
+        if (opts.signal?.aborted) throw new Error("Download aborted");
+        throw e;
+    } finally {
+        opts.signal?.removeEventListener("abort", onAbort);
+        controller.abort();
+    }
+}
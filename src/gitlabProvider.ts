@@ -0,0 +1,124 @@
+import { fetchWithRetry } from "./http";
+import { providerHttpError } from "./sourceProvider";
+import type { RequestContext, SourceProvider } from "./sourceProvider";
+import type { TreeItem } from "./githubPartialSubtree";
+
+type GitLabTreeEntry = { id: string; name: string; type: "blob" | "tree" | "commit"; path: string; mode: string };
+
+const TOKEN_ENV = ["GITLAB_TOKEN"] as const;
+
+function gitlabHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { "User-Agent": "@pnp/spfx-sample" };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return headers;
+}
+
+async function gitlabGet(url: string, ctx: RequestContext): Promise<Response> {
+    ctx.verbose && console.error(`[debug] GET ${url}`);
+    return fetchWithRetry(url, { headers: gitlabHeaders(ctx.token), signal: ctx.signal });
+}
+
+async function gitlabError(res: Response, ctx: RequestContext): Promise<Error> {
+    const data = (await res.json().catch(() => null)) as { message?: unknown; error?: unknown } | null;
+    const message = typeof data?.message === "string" ? data.message : typeof data?.error === "string" ? data.error : undefined;
+    return providerHttpError("GitLab", res, message, ctx.token, TOKEN_ENV);
+}
+
+async function gitlabJson<T>(url: string, ctx: RequestContext): Promise<T> {
+    const res = await gitlabGet(url, ctx);
+    if (!res.ok) throw await gitlabError(res, ctx);
+    return (await res.json()) as T;
+}
+
+/**
+ * The GitLab provider (gitlab.com or a self-managed instance at `webRoot`), using the REST API v4.
+ *
+ * Repositories are addressed as `<owner>/<repo>`, where `owner` may include subgroups (`group/subgroup`).
+ * Tree listings are paginated; every page is followed through the `X-Next-Page` header.
+ */
+export function gitlabProvider(webRoot = "https://gitlab.com"): SourceProvider {
+    const web = webRoot.replace(/\/+$/, "");
+    const api = `${web}/api/v4`;
+    const project = (owner: string, repo: string) => `${api}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+    async function listRepositoryTree(owner: string, repo: string, ref: string, dir: string, recursive: boolean, ctx: RequestContext): Promise<GitLabTreeEntry[]> {
+        const entries: GitLabTreeEntry[] = [];
+        let page = "1";
+        while (page) {
+            const query = new URLSearchParams({ ref, per_page: "100", page });
+            if (dir) query.set("path", dir);
+            if (recursive) query.set("recursive", "true");
+            const res = await gitlabGet(`${project(owner, repo)}/repository/tree?${query}`, ctx);
+            if (!res.ok) throw await gitlabError(res, ctx);
+            entries.push(...((await res.json()) as GitLabTreeEntry[]));
+            page = res.headers.get("X-Next-Page") ?? "";
+        }
+        return entries;
+    }
+
+    return {
+        name: "gitlab",
+        host: new URL(web).host,
+        tokenEnv: TOKEN_ENV,
+        cloneUrl: (owner, repo) => `${web}/${owner}/${repo}.git`,
+
+        async listFolder({ owner, repo, ref, path: dir, ...ctx }) {
+            const entries = await listRepositoryTree(owner, repo, ref, dir, false, ctx);
+            // an unknown path lists as empty rather than 404
+            if (!entries.length && dir) throw new Error(`Could not find /${dir} at ${owner}/${repo}@${ref}`);
+            return entries.map((e): TreeItem => ({ path: e.name, type: e.type, sha: e.id, mode: e.mode }));
+        },
+
+        // GitLab lists trees by path and ref rather than by tree SHA
+        async listTree({ owner, repo, ref, path: dir, ...ctx }) {
+            const entries = await listRepositoryTree(owner, repo, ref, dir, true, ctx);
+            const items = entries.map((e): TreeItem => ({ path: e.path.slice(dir.length + 1), type: e.type, sha: e.id, mode: e.mode }));
+            return { items };
+        },
+
+        async fetchFile({ owner, repo, ref, path: filePath, ...ctx }) {
+            const res = await gitlabGet(`${project(owner, repo)}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(ref)}`, ctx);
+            if (res.status === 404) return null;
+            if (!res.ok) throw await gitlabError(res, ctx);
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        async fetchBlob({ owner, repo, sha, ...ctx }) {
+            const res = await gitlabGet(`${project(owner, repo)}/repository/blobs/${sha}/raw`, ctx);
+            if (!res.ok) throw await gitlabError(res, ctx);
+            return new Uint8Array(await res.arrayBuffer());
+        },
+
+        tarballUrl: (owner, repo, ref) => `${project(owner, repo)}/repository/archive.tar.gz?sha=${encodeURIComponent(ref)}`,
+
+        async resolveCommit({ owner, repo, ref, ...ctx }) {
+            return (await gitlabJson<{ id: string }>(`${project(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`, ctx)).id;
+        },
+
+        async lastCommitBefore({ owner, repo, ref, path: p, before, ...ctx }) {
+            const query = new URLSearchParams({ ref_name: ref, path: p, until: before.toISOString(), per_page: "1" });
+            const commits = await gitlabJson<Array<{ id: string }>>(`${project(owner, repo)}/repository/commits?${query}`, ctx);
+            return commits[0]?.id ?? null;
+        },
+
+        async lastCommitDate({ owner, repo, ref, path: p, ...ctx }) {
+            const query = new URLSearchParams({ ref_name: ref, path: p, per_page: "1" });
+            const commits = await gitlabJson<Array<{ committed_date?: string }>>(`${project(owner, repo)}/repository/commits?${query}`, ctx);
+            return commits[0]?.committed_date ?? null;
+        },
+
+        async pullRequestHead({ owner, repo, number, ...ctx }) {
+            return (await gitlabJson<{ sha: string }>(`${project(owner, repo)}/merge_requests/${number}`, ctx)).sha;
+        },
+
+        pullRef: (number) => `refs/merge-requests/${number}/head`,
+
+        async currentUser(ctx) {
+            return (await gitlabJson<{ username: string }>(`${api}/user`, ctx)).username;
+        },
+
+        // opened on the fork; GitLab targets the project it was forked from
+        newPullRequestUrl: ({ repo, base, forkOwner, branch }) =>
+            `${web}/${forkOwner}/${repo}/-/merge_requests/new?${new URLSearchParams({ "merge_request[source_branch]": branch, "merge_request[target_branch]": base })}`
+    };
+}
@@ -0,0 +1,173 @@
+/**
+ * Shared HTTP layer: `fetch` with per-attempt timeouts, retries with jittered exponential backoff for transient
+ * failures (5xx, connection resets, timeouts), and rate-limit awareness (`Retry-After`, `X-RateLimit-Reset`).
+ */
+import { networkFetch } from "./network";
+
+export type HttpWait = {
+    reason: "retry" | "rate-limit";
+    /** Milliseconds left before the next attempt; 0 once the wait is over */
+    remainingMs: number;
+    /** 1-based number of the attempt that is about to be made */
+    attempt: number;
+    url: string;
+    /** What went wrong, e.g. "HTTP 502" or "ECONNRESET" */
+    cause: string;
+};
+
+export type HttpSettings = {
+    /** Extra attempts after the first one for transient failures (default 3) */
+    retries: number;
+    /** Time allowed for each attempt to receive response headers (default 30s) */
+    timeoutMs: number;
+    /** Rate-limit windows shorter than this are waited out instead of failing (default 60s; 0 disables) */
+    maxRateLimitWaitMs: number;
+    /** Base delay for exponential backoff (default 500ms) */
+    backoffMs: number;
+    /** Called about once a second while waiting before a retry, e.g. to show a countdown */
+    onWait?: (wait: HttpWait) => void;
+    verbose?: boolean;
+};
+
+const DEFAULTS: HttpSettings = { retries: 3, timeoutMs: 30_000, maxRateLimitWaitMs: 60_000, backoffMs: 500 };
+
+let settings: HttpSettings = { ...DEFAULTS };
+
+/**
+ * Change the process-wide HTTP settings (the CLI applies `--retries`, `--timeout` and `--rate-limit-wait` here).
+ * Pass `reset: true` to start from the defaults.
+ */
+export function configureHttp(update: Partial<HttpSettings> & { reset?: boolean }): void {
+    const { reset, ...rest } = update;
+    settings = { ...(reset ? DEFAULTS : settings), ...rest };
+}
+
+export function getHttpSettings(): Readonly<HttpSettings> {
+    return settings;
+}
+
+const RETRYABLE_CODES = new Set([
+    "ECONNRESET", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ENETUNREACH", "ENETDOWN", "EHOSTUNREACH",
+    "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT", "UND_ERR_BODY_TIMEOUT"
+]);
+
+function errorCode(e: unknown): string | undefined {
+    if (!(e instanceof Error)) return undefined;
+    // checked first: DOMException has a numeric `code` of its own
+    if (e.name === "TimeoutError") return "ETIMEDOUT";
+    // undici puts the socket error in `cause`
+    const cause = e.cause;
+    if (cause instanceof Error && "code" in cause && typeof cause.code === "string") return cause.code;
+    return "code" in e && typeof e.code === "string" ? e.code : undefined;
+}
+
+/**
+ * How long a rate-limited response asks us to wait, from `Retry-After` (seconds or HTTP date)
+ * or `X-RateLimit-Reset` (epoch seconds). `null` when the response is not rate limited, `Infinity` when it
+ * is but does not say until when.
+ */
+export function rateLimitDelayMs(res: Response, now = Date.now()): number | null {
+    const limited = res.status === 429 || (res.status === 403 && (res.headers.get("X-RateLimit-Remaining") === "0" || res.headers.has("Retry-After")));
+    if (!limited) return null;
+
+    const retryAfter = res.headers.get("Retry-After");
+    if (retryAfter) {
+        const secs = Number(retryAfter);
+        if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - now);
+    }
+    const reset = Number(res.headers.get("X-RateLimit-Reset"));
+    if (reset) return Math.max(0, reset * 1000 - now);
+    return Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay between half and all of `base * 2^(attempt-1)`, capped at 30s.
+ */
+export function backoffDelayMs(attempt: number, baseMs = settings.backoffMs): number {
+    const max = Math.min(30_000, baseMs * 2 ** Math.max(0, attempt - 1));
+    return Math.round(max / 2 + Math.random() * (max / 2));
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined | null, tick: (remainingMs: number) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const end = Date.now() + ms;
+        let timer: NodeJS.Timeout;
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const step = () => {
+            const remaining = end - Date.now();
+            tick(Math.max(0, remaining));
+            if (remaining <= 0) {
+                signal?.removeEventListener("abort", onAbort);
+                return resolve();
+            }
+            timer = setTimeout(step, Math.min(1000, remaining));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+        step();
+    });
+}
+
+/**
+ * `fetch` with retries. Transient failures (HTTP 5xx, connection resets, per-attempt timeouts) are retried up to
+ * `retries` times with jittered exponential backoff (or the server's `Retry-After`). Rate-limited responses are
+ * retried after the window resets when that is within `maxRateLimitWaitMs`.
+ *
+ * The per-attempt timeout only covers waiting for the response headers, so long streaming bodies are not cut off.
+ *
+ * @returns The last response, which may still be non-OK (callers build their own error messages).
+ * @throws The last network error once retries are exhausted, or the abort reason when `init.signal` fires.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}, overrides: Partial<HttpSettings> = {}): Promise<Response> {
+    const s = { ...settings, ...overrides };
+    const outer = init.signal ?? undefined;
+
+    for (let attempt = 1; ; attempt++) {
+        const timeout = new AbortController();
+        const timer = setTimeout(() => timeout.abort(new DOMException(`Timed out after ${s.timeoutMs}ms`, "TimeoutError")), s.timeoutMs);
+        const signal = outer ? AbortSignal.any([outer, timeout.signal]) : timeout.signal;
+
+        let res: Response | undefined;
+        let cause = "";
+        let delay = 0;
+        let reason: HttpWait["reason"] = "retry";
+        try {
+            res = await networkFetch(url, { ...init, signal });
+        } catch (e) {
+            if (outer?.aborted) throw e;
+            const code = errorCode(e);
+            if (!code || !RETRYABLE_CODES.has(code) || attempt > s.retries) {
+                throw e instanceof Error && e.name === "TimeoutError" ? new Error(`Request timed out after ${Math.round(s.timeoutMs / 1000)}s: ${url}`) : e;
+            }
+            cause = code;
+            delay = backoffDelayMs(attempt, s.backoffMs);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (res) {
+            const limitedFor = rateLimitDelayMs(res);
+            if (limitedFor !== null) {
+                if (limitedFor > s.maxRateLimitWaitMs || attempt > s.retries) return res;
+                cause = `HTTP ${res.status} (rate limited)`;
+                delay = limitedFor + 1000; // reset times have one-second resolution
+                reason = "rate-limit";
+            } else if (res.status >= 500 && attempt <= s.retries) {
+                cause = `HTTP ${res.status}`;
+                const retryAfter = Number(res.headers.get("Retry-After"));
+                delay = retryAfter > 0 ? Math.min(retryAfter * 1000, 60_000) : backoffDelayMs(attempt, s.backoffMs);
+            } else {
+                return res;
+            }
+            await res.body?.cancel().catch(() => { /* ignore */ });
+        }
+
+        s.verbose && console.error(`[debug] ${cause} for ${url}; retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1}/${s.retries + 1})`);
+        await sleep(delay, outer, (remainingMs) => s.onWait?.({ reason, remainingMs, attempt: attempt + 1, url, cause }));
+    }
+}
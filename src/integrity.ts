@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+import type { Hash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readBlobFile } from "./fileModes";
+
+/**
+ * Start a git blob hash for content of `size` bytes: SHA-1 over `blob <size>\0` followed by the content.
+ * Feed the content with `update()` and finish with `digest("hex")`.
+ */
+export function createGitBlobHash(size: number): Hash {
+    return createHash("sha1").update(`blob ${size}\0`);
+}
+
+/**
+ * The git blob SHA of some bytes, as listed in tree entries (`git hash-object`).
+ */
+export function gitBlobSha(bytes: Uint8Array): string {
+    return createGitBlobHash(bytes.byteLength).update(bytes).digest("hex");
+}
+
+export type VerifyResult = {
+    /** Files whose content matches the recorded blob SHA */
+    ok: string[];
+    /** Files whose content differs from the recorded blob SHA */
+    modified: string[];
+    /** Recorded files that no longer exist */
+    missing: string[];
+};
+
+/**
+ * Re-hash files under `dir` and compare them to their recorded blob SHAs.
+ *
+ * A file that only differs in line endings (CRLF checkout of an LF blob) counts as unchanged.
+ */
+export async function verifyFiles(dir: string, files: Array<{ path: string; sha: string }>): Promise<VerifyResult> {
+    const result: VerifyResult = { ok: [], modified: [], missing: [] };
+    for (const f of files) {
+        let bytes: Buffer;
+        try {
+            bytes = await readBlobFile(path.join(dir, f.path));
+        } catch {
+            result.missing.push(f.path);
+            continue;
+        }
+        const sha = f.sha.toLowerCase();
+        if (gitBlobSha(bytes) === sha) {
+            result.ok.push(f.path);
+        } else if (bytes.includes("\r\n") && gitBlobSha(Buffer.from(bytes.toString("latin1").replace(/\r\n/g, "\n"), "latin1")) === sha) {
+            result.ok.push(f.path);
+        } else {
+            result.modified.push(f.path);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,196 @@
+import fs from "node:fs/promises";
+import { existsSync, statSync } from "node:fs";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { gitBlobSha } from "./integrity";
+import { MODE_EXECUTABLE, MODE_FILE, MODE_SYMLINK, readBlobFile } from "./fileModes";
+import type { SourceProvider } from "./sourceProvider";
+import type { TreeItem } from "./githubPartialSubtree";
+
+/**
+ * Resolve `--source` (a folder path or a `file://` URL) to an existing folder.
+ *
+ * @throws Error when the folder does not exist.
+ */
+export function sourceDirOf(source: string): string {
+    const s = source.trim();
+    const dir = path.resolve(/^file:/i.test(s) ? fileURLToPath(s) : s);
+    let isDir = false;
+    try {
+        isDir = statSync(dir).isDirectory();
+    } catch {
+        // reported below
+    }
+    if (!isDir) throw new Error(`--source folder not found: ${dir}`);
+    return dir;
+}
+
+/** A clone has a `.git` folder (or file, for worktrees); a bare mirror has `HEAD` and `objects/` at its root. */
+function isGitRepository(dir: string): boolean {
+    return existsSync(path.join(dir, ".git")) || (existsSync(path.join(dir, "HEAD")) && existsSync(path.join(dir, "objects")));
+}
+
+function git(dir: string, args: string[], signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        execFile("git", ["-C", dir, "-c", "core.quotePath=false", ...args], { encoding: "buffer", maxBuffer: 512 * 1024 * 1024, windowsHide: true, signal }, (err, stdout, stderr) => {
+            if (err) {
+                const detail = stderr.toString().trim();
+                reject(Object.assign(new Error(`git ${args.join(" ")} failed${detail ? `: ${detail}` : ""}`), { code: err.code }));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/** Parse `git ls-tree -l -z` output ("<mode> <type> <sha> <size>\t<path>\0"). */
+function parseLsTree(out: Buffer): TreeItem[] {
+    const items: TreeItem[] = [];
+    for (const record of out.toString("utf8").split("\0")) {
+        const m = /^(\d+) (blob|tree|commit) ([0-9a-f]+)\s+(\d+|-)\t(.+)$/s.exec(record);
+        if (!m) continue;
+        const [, mode, type, sha, size, p] = m;
+        items.push({ path: p, type: type as TreeItem["type"], sha, size: size === "-" ? undefined : Number(size), mode });
+    }
+    return items;
+}
+
+/**
+ * A provider that reads a sample repository from the local file system, for machines without internet access.
+ *
+ * `dir` is a clone or a bare mirror (`git clone --mirror`): listings and files are read from its git objects at the
+ * requested ref (a local branch, or `origin/<ref>` in a clone), and the git method clones from it like from any
+ * other remote. A plain copy of the repository without `.git`, or a clone on a machine without git, is read from
+ * the files on disk instead; `ref` is ignored then.
+ */
+export function localProvider(dir: string): SourceProvider {
+    const root = path.resolve(dir);
+    const repository = isGitRepository(root);
+    // blob SHA → path, for fetchBlob on a plain folder
+    const blobPaths = new Map<string, string>();
+
+    let useGit: Promise<boolean> | undefined;
+    const viaGit = () => useGit ??= !repository
+        ? Promise.resolve(false)
+        : git(root, ["--version"]).then(() => true, (e: NodeJS.ErrnoException) => {
+            if (e.code !== "ENOENT") throw e;
+            if (!existsSync(path.join(root, ".git"))) throw new Error(`Git is needed to read the bare repository ${root}, but was not found on PATH.`);
+            return false;
+        });
+
+    const commits = new Map<string, Promise<string>>();
+    const commitOf = (ref: string, signal?: AbortSignal) => {
+        let p = commits.get(ref);
+        if (!p) {
+            const verify = (r: string) => git(root, ["rev-parse", "--verify", "--quiet", `${r}^{commit}`], signal).then((b) => b.toString().trim());
+            p = verify(ref)
+                .catch(() => verify(`origin/${ref}`))
+                .catch(() => { throw new Error(`Ref ${ref} was not found in ${root}.`); });
+            commits.set(ref, p);
+        }
+        return p;
+    };
+
+    async function listDisk(rel: string, recursive: boolean, base = rel): Promise<TreeItem[]> {
+        const abs = path.join(root, ...rel.split("/").filter(Boolean));
+        let entries;
+        try {
+            entries = await fs.readdir(abs, { withFileTypes: true });
+        } catch {
+            throw new Error(`Could not find /${rel} in ${root}`);
+        }
+        const items: TreeItem[] = [];
+        for (const e of entries) {
+            if (e.name === ".git") continue;
+            const repoPath = rel ? `${rel}/${e.name}` : e.name;
+            const itemPath = repoPath.slice(base ? base.length + 1 : 0);
+            if (e.isDirectory()) {
+                // a plain folder has no tree SHAs; the path stands in for one (see listTree)
+                items.push({ path: itemPath, type: "tree", sha: repoPath, mode: "040000" });
+                if (recursive) items.push(...await listDisk(repoPath, true, base));
+                continue;
+            }
+            const full = path.join(abs, e.name);
+            const bytes = await readBlobFile(full);
+            const sha = gitBlobSha(bytes);
+            const exec = !e.isSymbolicLink() && ((await fs.stat(full)).mode & 0o111) !== 0 && process.platform !== "win32";
+            blobPaths.set(sha, repoPath);
+            items.push({ path: itemPath, type: "blob", sha, size: bytes.length, mode: e.isSymbolicLink() ? MODE_SYMLINK : exec ? MODE_EXECUTABLE : MODE_FILE });
+        }
+        return items;
+    }
+
+    return {
+        name: "local",
+        host: pathToFileURL(root).href,
+        tokenEnv: [],
+        // a plain folder cannot be cloned
+        ...(repository ? { cloneUrl: () => pathToFileURL(root).href } : {}),
+
+        async listFolder({ ref, path: dir, signal }) {
+            if (!(await viaGit())) return listDisk(dir, false);
+            const commit = await commitOf(ref, signal);
+            const treeish = dir ? `${commit}:${dir}` : commit;
+            const out = await git(root, ["ls-tree", "-l", "-z", treeish], signal).catch(() => {
+                throw new Error(`Could not find /${dir} at ${ref} in ${root}`);
+            });
+            return parseLsTree(out);
+        },
+
+        async listTree({ sha, signal }) {
+            if (!(await viaGit())) return { items: await listDisk(sha, true) };
+            return { items: parseLsTree(await git(root, ["ls-tree", "-r", "-t", "-l", "-z", sha], signal)) };
+        },
+
+        async fetchFile({ ref, path: filePath, signal }) {
+            if (!(await viaGit())) {
+                try {
+                    return new Uint8Array(await readBlobFile(path.join(root, ...filePath.split("/"))));
+                } catch {
+                    return null;
+                }
+            }
+            const commit = await commitOf(ref, signal);
+            return git(root, ["cat-file", "blob", `${commit}:${filePath}`], signal).then((b) => new Uint8Array(b), () => null);
+        },
+
+        async fetchBlob({ sha, signal }) {
+            if (!(await viaGit())) {
+                const rel = blobPaths.get(sha);
+                if (!rel) throw new Error(`Blob ${sha} is not in ${root}`);
+                return new Uint8Array(await readBlobFile(path.join(root, ...rel.split("/"))));
+            }
+            return new Uint8Array(await git(root, ["cat-file", "blob", sha], signal));
+        },
+
+        async resolveCommit({ ref, signal }) {
+            if (!(await viaGit())) throw new Error(`${root} is not a git repository, so refs cannot be resolved.`);
+            return commitOf(ref, signal);
+        },
+
+        async lastCommitBefore({ ref, path: p, before, signal }) {
+            if (!(await viaGit())) throw new Error(`${root} is not a git repository, so it has no history.`);
+            const commit = await commitOf(ref, signal);
+            const out = await git(root, ["rev-list", "-1", `--before=${before.toISOString()}`, commit, "--", p], signal);
+            return out.toString().trim() || null;
+        },
+
+        async lastCommitDate({ ref, path: p, signal }) {
+            if (!(await viaGit())) return null;
+            const commit = await commitOf(ref, signal);
+            const out = await git(root, ["log", "-1", "--format=%cI", commit, "--", p], signal);
+            return out.toString().trim() || null;
+        },
+
+        async pullRequestHead({ number, signal }) {
+            if (!(await viaGit())) throw new Error(`${root} is not a git repository, so it has no pull requests.`);
+            // a mirror made with `git clone --mirror` carries the host's pull request refs
+            return commitOf(`refs/pull/${number}/head`, signal).catch(() => {
+                throw new Error(`Pull request #${number} was not found in ${root}.`);
+            });
+        },
+
+        pullRef: (number) => `refs/pull/${number}/head`
+    };
+}
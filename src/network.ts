@@ -0,0 +1,318 @@
+/**
+ * Proxy and certificate settings shared by every network path: HTTP requests through {@link networkFetch}
+ * (used by the retrying HTTP layer) and the git child processes, which get matching `GIT_CONFIG_*` variables.
+ *
+ * Without a proxy or extra CA bundle, requests go through the global `fetch` unchanged. Otherwise they are sent
+ * with `node:http`/`node:https`, tunnelling HTTPS through the proxy with `CONNECT`, because Node's built-in
+ * `fetch` neither reads proxy variables nor accepts extra CA certificates at run time.
+ */
+import http from "node:http";
+import https from "node:https";
+import tls from "node:tls";
+import os from "node:os";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { Readable } from "node:stream";
+import type { Socket } from "node:net";
+
+export type NetworkSettings = {
+    /** Proxy URL for https:// requests */
+    httpsProxy?: string;
+    /** Proxy URL for http:// requests */
+    httpProxy?: string;
+    /** Where the proxy came from, for `--verbose`: "--proxy", "HTTPS_PROXY", ... */
+    proxySource?: string;
+    /** NO_PROXY entries: host names, `.domain` suffixes, `host:port`, or `*` */
+    noProxy: string[];
+    /** PEM bundle (`--cafile`) trusted in addition to Node's built-in root certificates */
+    caFile?: string;
+    /** `NODE_EXTRA_CA_CERTS`: Node applies it to its own requests at startup, so only git needs to be told */
+    nodeExtraCaCerts?: string;
+    verbose?: boolean;
+};
+
+const MAX_REDIRECTS = 20;
+
+let settings: NetworkSettings = { noProxy: [] };
+let extraCa: string | undefined;
+
+function envValue(env: NodeJS.ProcessEnv, name: string): { value: string; name: string } | undefined {
+    for (const n of [name, name.toLowerCase()]) {
+        const v = env[n]?.trim();
+        if (v) return { value: v, name: n };
+    }
+    return undefined;
+}
+
+/**
+ * Work out the network settings from the `--proxy` / `--cafile` options and the environment:
+ * `HTTPS_PROXY` / `HTTP_PROXY` / `ALL_PROXY` and `NO_PROXY` (either case), and `NODE_EXTRA_CA_CERTS`.
+ */
+export function networkSettingsFrom(opts: { proxy?: string; cafile?: string; verbose?: boolean }, env: NodeJS.ProcessEnv = process.env): NetworkSettings {
+    const out: NetworkSettings = { noProxy: [], verbose: opts.verbose };
+    if (opts.proxy?.trim()) {
+        out.httpsProxy = out.httpProxy = normalizeProxyUrl(opts.proxy);
+        out.proxySource = "--proxy";
+    } else {
+        const all = envValue(env, "ALL_PROXY");
+        const secure = envValue(env, "HTTPS_PROXY") ?? all;
+        const plain = envValue(env, "HTTP_PROXY") ?? all;
+        if (secure) out.httpsProxy = normalizeProxyUrl(secure.value);
+        if (plain) out.httpProxy = normalizeProxyUrl(plain.value);
+        const sources = [...new Set([secure?.name, plain?.name].filter(Boolean))];
+        if (sources.length) out.proxySource = sources.join(", ");
+    }
+    const noProxy = envValue(env, "NO_PROXY");
+    if (noProxy) out.noProxy = noProxy.value.split(/[\s,]+/).map((s) => s.trim().toLowerCase()).filter(Boolean);
+
+    if (opts.cafile?.trim()) out.caFile = path.resolve(opts.cafile.trim());
+    if (env.NODE_EXTRA_CA_CERTS?.trim()) out.nodeExtraCaCerts = path.resolve(env.NODE_EXTRA_CA_CERTS.trim());
+    return out;
+}
+
+function normalizeProxyUrl(p: string): string {
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(p) ? p : `http://${p}`;
+    let url: URL;
+    try {
+        url = new URL(withScheme);
+    } catch {
+        throw new Error(`Invalid proxy URL: ${p}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error(`Unsupported proxy protocol ${url.protocol} in ${p}; use an http:// or https:// proxy.`);
+    }
+    return url.href.replace(/\/$/, "");
+}
+
+/**
+ * Apply network settings process-wide (the CLI does this once, before running a command). Pass `reset: true`
+ * to go back to direct connections.
+ *
+ * @throws Error when the CA bundle cannot be read.
+ */
+export function configureNetwork(update: NetworkSettings | { reset: true }): void {
+    if ("reset" in update) {
+        settings = { noProxy: [] };
+        extraCa = undefined;
+        return;
+    }
+    settings = update;
+    extraCa = undefined;
+    if (update.caFile) {
+        try {
+            extraCa = readFileSync(update.caFile, "utf8");
+        } catch (e) {
+            throw new Error(`Cannot read the CA bundle ${update.caFile}: ${(e as Error).message}`);
+        }
+    }
+    if (update.verbose) {
+        const ca = update.caFile ?? update.nodeExtraCaCerts;
+        console.error(`[debug] network: ${describeProxy(update)}${ca ? `; extra CA certificates from ${ca}` : ""}`);
+    }
+}
+
+export function getNetworkSettings(): Readonly<NetworkSettings> {
+    return settings;
+}
+
+function redact(proxy: string): string {
+    const url = new URL(proxy);
+    if (url.password) url.password = "***";
+    return url.href.replace(/\/$/, "");
+}
+
+function describeProxy(s: NetworkSettings): string {
+    if (!s.httpsProxy && !s.httpProxy) return "direct connections (no proxy configured)";
+    const target = s.httpsProxy === s.httpProxy || !s.httpProxy
+        ? `proxy ${redact(s.httpsProxy!)}`
+        : s.httpsProxy ? `proxy ${redact(s.httpsProxy)} (https), ${redact(s.httpProxy)} (http)` : `proxy ${redact(s.httpProxy)} (http only)`;
+    const bypass = s.noProxy.length ? `, bypassed for ${s.noProxy.join(", ")}` : "";
+    return `${target} from ${s.proxySource}${bypass}`;
+}
+
+/**
+ * Whether `NO_PROXY` exempts a URL: `*` matches everything, `example.com` and `.example.com` match the domain and
+ * its subdomains, and an entry with a port only matches that port.
+ */
+export function bypassesProxy(url: URL, noProxy: readonly string[]): boolean {
+    const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    const port = url.port || (url.protocol === "https:" ? "443" : "80");
+    return noProxy.some((entry) => {
+        if (entry === "*") return true;
+        const m = /^(.*?)(?::(\d+))?$/.exec(entry.replace(/^\[|\](?=:|$)/g, ""))!;
+        const name = m[1].replace(/^\*?\./, "");
+        if (m[2] && m[2] !== port) return false;
+        return host === name || host.endsWith(`.${name}`);
+    });
+}
+
+/** The proxy to use for a URL under the current settings, or `null` for a direct connection. */
+export function proxyFor(url: string | URL, s: NetworkSettings = settings): string | null {
+    const u = typeof url === "string" ? new URL(url) : url;
+    const proxy = u.protocol === "https:" ? s.httpsProxy : u.protocol === "http:" ? s.httpProxy : undefined;
+    if (!proxy || bypassesProxy(u, s.noProxy)) return null;
+    return proxy;
+}
+
+/**
+ * `fetch` that honours the configured proxy and CA bundle. Falls through to the global `fetch` when neither
+ * applies to the URL.
+ */
+export async function networkFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const proxy = proxyFor(url);
+    if (settings.verbose) {
+        const host = new URL(url).host;
+        if (proxy) console.error(`[debug] ${host} via proxy ${redact(proxy)}`);
+        else if (proxyFor(url, { ...settings, noProxy: [] })) console.error(`[debug] ${host} matches NO_PROXY; connecting directly`);
+    }
+    if (!proxy && !extraCa) return fetch(url, init);
+    return nodeFetch(new URL(url), init, MAX_REDIRECTS);
+}
+
+function proxyAuthHeader(proxy: URL): Record<string, string> {
+    if (!proxy.username) return {};
+    const creds = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { "Proxy-Authorization": `Basic ${Buffer.from(creds).toString("base64")}` };
+}
+
+function trustedCa(): string[] | undefined {
+    return extraCa ? [...tls.rootCertificates, extraCa] : undefined;
+}
+
+/** Open a `CONNECT` tunnel through `proxy` to `host:port`. */
+function connectTunnel(proxy: URL, host: string, port: string, signal?: AbortSignal): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+        const agent = proxy.protocol === "https:" ? https : http;
+        const req = agent.request({
+            host: proxy.hostname,
+            port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+            method: "CONNECT",
+            path: `${host}:${port}`,
+            headers: { Host: `${host}:${port}`, ...proxyAuthHeader(proxy) },
+            ca: trustedCa(),
+            signal
+        });
+        req.once("connect", (res, socket) => {
+            if (res.statusCode === 200) return resolve(socket);
+            socket.destroy();
+            reject(new Error(`Proxy ${redact(proxy.href)} refused to connect to ${host}:${port} (HTTP ${res.statusCode}${res.statusCode === 407 ? ", proxy authentication required" : ""}).`));
+        });
+        req.once("error", (e) => reject(Object.assign(new Error(`Cannot reach proxy ${redact(proxy.href)}: ${e.message}`), { cause: e })));
+        req.end();
+    });
+}
+
+async function nodeFetch(url: URL, init: RequestInit, redirectsLeft: number): Promise<Response> {
+    const proxyUrl = proxyFor(url);
+    const proxy = proxyUrl ? new URL(proxyUrl) : null;
+    const secure = url.protocol === "https:";
+    const port = url.port || (secure ? "443" : "80");
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((v, k) => { headers[k] = v; });
+
+    const options: https.RequestOptions = { method: init.method ?? "GET", headers, signal: init.signal ?? undefined, ca: trustedCa() };
+    let tunnel: Socket | undefined;
+    if (secure) {
+        Object.assign(options, { host: url.hostname, port, path: url.pathname + url.search, servername: url.hostname });
+        if (proxy) {
+            const socket = tunnel = await connectTunnel(proxy, url.hostname, port, options.signal).catch((e) => {
+                throw init.signal?.aborted ? init.signal.reason : e;
+            });
+            options.createConnection = () => tls.connect({ socket, servername: url.hostname, ca: trustedCa() });
+            options.agent = false;
+        }
+    } else if (proxy) {
+        // plain http through a proxy: absolute-form request line
+        Object.assign(options, { host: proxy.hostname, port: proxy.port || 80, path: url.href });
+        Object.assign(headers, { Host: url.host }, proxyAuthHeader(proxy));
+    } else {
+        Object.assign(options, { host: url.hostname, port, path: url.pathname + url.search });
+    }
+
+    const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        const req = (secure ? https : http).request(options, resolve);
+        // like fetch, reject with the abort reason (the HTTP layer tells timeouts apart by it)
+        req.once("error", (e) => {
+            // a failed TLS handshake leaves the tunnel to the proxy open
+            tunnel?.destroy();
+            reject(init.signal?.aborted ? init.signal.reason : e);
+        });
+        if (typeof init.body === "string") req.end(init.body);
+        else req.end();
+    });
+
+    // the tunnel serves this one request (no keep-alive without an agent); close it with the response
+    if (tunnel) res.once("close", () => tunnel!.destroy());
+    const status = res.statusCode ?? 0;
+    const location = res.headers.location;
+    if (location && [301, 302, 303, 307, 308].includes(status) && init.redirect !== "manual") {
+        res.resume();
+        if (init.redirect === "error" || redirectsLeft <= 0) throw new TypeError(`Too many redirects or redirect not allowed: ${url.href}`);
+        const next = new URL(location, url);
+        // like fetch: credentials are not forwarded to another origin
+        const nextInit = next.origin === url.origin ? init : { ...init, headers: withoutAuthorization(init.headers) };
+        return nodeFetch(next, status === 303 ? { ...nextInit, method: "GET", body: undefined } : nextInit, redirectsLeft - 1);
+    }
+
+    const responseHeaders = new Headers();
+    for (const [k, v] of Object.entries(res.headers)) {
+        if (v === undefined) continue;
+        for (const value of Array.isArray(v) ? v : [v]) responseHeaders.append(k, value);
+    }
+    const nullBody = [101, 204, 205, 304].includes(status) || options.method === "HEAD";
+    if (nullBody) res.resume();
+    return new Response(nullBody ? null : (Readable.toWeb(res) as ReadableStream), { status, statusText: res.statusMessage, headers: responseHeaders });
+}
+
+function withoutAuthorization(h: HeadersInit | undefined): Headers {
+    const headers = new Headers(h);
+    headers.delete("authorization");
+    return headers;
+}
+
+/**
+ * Environment variables that carry the network settings into a git command as `GIT_CONFIG_*` entries (kept out of
+ * the command line, where a proxy password would show in the process list and in error messages): `http.proxy` for
+ * an explicit `--proxy` (git reads the proxy variables by itself), and `http.sslCAInfo` pointing at Node's root
+ * certificates plus the extra bundle, so the bundle adds to the trusted certificates as it does for Node instead of
+ * replacing them. Entries already set in `env` are kept.
+ */
+export async function gitNetworkEnv(s: NetworkSettings = settings, env: NodeJS.ProcessEnv = process.env): Promise<Record<string, string>> {
+    const entries: [string, string][] = [];
+    if (s.proxySource === "--proxy" && s.httpsProxy) entries.push(["http.proxy", s.httpsProxy]);
+    const caFile = s.caFile ?? s.nodeExtraCaCerts;
+    if (caFile) entries.push(["http.sslCAInfo", await combinedCaBundle(caFile)]);
+    if (entries.length === 0) return {};
+
+    const first = Number(env.GIT_CONFIG_COUNT) || 0;
+    const vars: Record<string, string> = { GIT_CONFIG_COUNT: String(first + entries.length) };
+    entries.forEach(([key, value], i) => {
+        vars[`GIT_CONFIG_KEY_${first + i}`] = key;
+        vars[`GIT_CONFIG_VALUE_${first + i}`] = value;
+    });
+    return vars;
+}
+
+/** Bundles written by this process, by extra CA file: built on the first git command and reused after that */
+const caBundles = new Map<string, Promise<string>>();
+
+function combinedCaBundle(caFile: string): Promise<string> {
+    let bundle = caBundles.get(caFile);
+    if (!bundle) {
+        bundle = writeCaBundle(caFile);
+        // a failed read is reported once, then retried on the next command
+        bundle.catch(() => caBundles.delete(caFile));
+        caBundles.set(caFile, bundle);
+    }
+    return bundle;
+}
+
+async function writeCaBundle(caFile: string): Promise<string> {
+    const extra = await readFile(caFile, "utf8");
+    const pem = `${tls.rootCertificates.join("\n")}\n${extra}\n`;
+    const file = path.join(os.tmpdir(), `spfx-sample-ca-${createHash("sha256").update(pem).digest("hex").slice(0, 12)}.pem`);
+    await writeFile(file, pem, "utf8");
+    return file;
+}
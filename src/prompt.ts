@@ -0,0 +1,32 @@
+import readline from "node:readline/promises";
+
+/**
+ * Whether it is safe to ask the user questions: both stdin and stdout are terminals and we are not in CI.
+ */
+export function canPrompt(): boolean {
+    return !!process.stdin.isTTY && !!process.stdout.isTTY && !process.env.CI;
+}
+
+/**
+ * Ask a free-text question on the terminal.
+ *
+ * @returns The trimmed answer, or `defaultValue` when the user just presses Enter.
+ */
+export async function ask(question: string, defaultValue = ""): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+        const answer = (await rl.question(question)).trim();
+        return answer || defaultValue;
+    } finally {
+        rl.close();
+    }
+}
+
+/**
+ * Ask a yes/no question on the terminal. An empty answer returns `defaultYes`.
+ */
+export async function confirm(question: string, defaultYes = true): Promise<boolean> {
+    const answer = (await ask(`${question} ${defaultYes ? "[Y/n]" : "[y/N]"} `)).toLowerCase();
+    if (!answer) return defaultYes;
+    return answer === "y" || answer === "yes";
+}
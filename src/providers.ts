@@ -0,0 +1,54 @@
+import { githubProvider } from "./githubPartialSubtree";
+import { gitlabProvider } from "./gitlabProvider";
+import { azureDevOpsProvider } from "./azureDevOpsProvider";
+import { localProvider, sourceDirOf } from "./localSource";
+import { assertProvider, hostBaseUrl } from "./sourceProvider";
+import type { HostedProviderName, SourceProvider } from "./sourceProvider";
+
+const FACTORIES: Record<HostedProviderName, (webRoot: string) => SourceProvider> = {
+    github: githubProvider,
+    gitlab: gitlabProvider,
+    azure: azureDevOpsProvider
+};
+
+const DEFAULT_HOSTS: Record<HostedProviderName, string> = {
+    github: "https://github.com",
+    gitlab: "https://gitlab.com",
+    azure: "https://dev.azure.com"
+};
+
+/**
+ * Guess the provider from a host name: `*github*` is GitHub (including Enterprise Server), `*gitlab*` is GitLab,
+ * `dev.azure.com` and `*.visualstudio.com` are Azure DevOps.
+ *
+ * @returns The provider, or `null` when the host name does not tell.
+ */
+export function inferProvider(host: string): HostedProviderName | null {
+    const name = new URL(hostBaseUrl(host)).hostname.toLowerCase();
+    if (name.includes("github")) return "github";
+    if (name.includes("gitlab")) return "gitlab";
+    if (name === "dev.azure.com" || name.endsWith(".visualstudio.com")) return "azure";
+    return null;
+}
+
+/**
+ * The source provider for the `--host`, `--provider` and `--source` options. Without a host, the provider's public
+ * service is used (github.com when neither is given); without a provider, it is inferred from the host name.
+ * `--source` reads a local clone, mirror or copy instead of any host.
+ *
+ * @throws Error for an unknown provider name, a host whose provider cannot be inferred, or a missing source folder.
+ */
+export function resolveProvider(opts: { host?: string; provider?: string; source?: string } = {}): SourceProvider {
+    if (opts.source) {
+        if (opts.host || opts.provider) throw new Error("--source cannot be combined with --host or --provider.");
+        return localProvider(sourceDirOf(opts.source));
+    }
+    const host = opts.host?.trim();
+    let name = opts.provider ? assertProvider(opts.provider.trim().toLowerCase()) : null;
+    if (!name && host) {
+        name = inferProvider(host);
+        if (!name) throw new Error(`Cannot tell which service ${host} runs. Pass --provider github, gitlab or azure.`);
+    }
+    name ??= "github";
+    return FACTORIES[name](host ? hostBaseUrl(host) : DEFAULT_HOSTS[name]);
+}
@@ -0,0 +1,92 @@
+import type { RequestContext, SourceProvider } from "./sourceProvider";
+
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+
+/**
+ * What a `get` downloads: `sha` is the immutable commit, `ref` the branch, tag or pull request ref it came from.
+ *
+ * @property label - How to describe the ref in messages, e.g. "main", "PR #123" or "main before 2024-05-01".
+ */
+export type ResolvedRef = { sha: string; ref: string; label: string; pr?: number; at?: string };
+
+/** `git ls-remote` output: ref name → commit SHA, with annotated tags already peeled. */
+export type RemoteRefs = Map<string, string>;
+
+/**
+ * Parse `git ls-remote` output ("<sha>\t<ref>" lines). A peeled tag line (`refs/tags/v1^{}`) replaces the tag
+ * object's SHA with the commit it points to.
+ */
+export function parseLsRemote(output: string): RemoteRefs {
+    const refs: RemoteRefs = new Map();
+    for (const line of output.split(/\r?\n/)) {
+        const m = /^([0-9a-f]{40,64})\t(.+)$/.exec(line.trim());
+        if (!m) continue;
+        const peeled = m[2].endsWith("^{}");
+        const name = peeled ? m[2].slice(0, -3) : m[2];
+        if (peeled || !refs.has(name)) refs.set(name, m[1]);
+    }
+    return refs;
+}
+
+/**
+ * Pick the commit a ref means from `git ls-remote` output, the way `git fetch` would: a full ref name as is, then
+ * a branch, then a tag.
+ */
+export function pickRemoteRef(refs: RemoteRefs, ref: string): string | null {
+    const candidates = ref.startsWith("refs/") || ref === "HEAD" ? [ref] : [`refs/heads/${ref}`, `refs/tags/${ref}`, `refs/${ref}`];
+    for (const c of candidates) {
+        const sha = refs.get(c);
+        if (sha) return sha;
+    }
+    return null;
+}
+
+/**
+ * Resolve the ref of a `get` to the commit SHA every download path then uses, so the result is reproducible and
+ * the commit can be reported.
+ *
+ * - `pr` selects the head of that pull request (the ref is ignored);
+ * - with `lsRemote` (the git method) branches, tags and pull request refs are looked up with `git ls-remote`,
+ *   otherwise through the provider's API;
+ * - `at` then moves back to the newest commit that touched `samplePath` before that date (always through the API,
+ *   since a shallow clone has no history).
+ *
+ * @throws Error when the ref, pull request or a commit before `at` does not exist.
+ */
+export async function resolveSampleRef(args: {
+    provider: SourceProvider;
+    owner: string;
+    repo: string;
+    ref: string;
+    samplePath: string;
+    pr?: number;
+    at?: Date;
+    lsRemote?: (patterns: string[]) => Promise<RemoteRefs>;
+} & RequestContext): Promise<ResolvedRef> {
+    const { provider, owner, repo, pr, at, lsRemote } = args;
+    const ctx: RequestContext = { signal: args.signal, verbose: args.verbose, token: args.token };
+    const ref = pr ? provider.pullRef(pr) : args.ref;
+    const where = `${owner}/${repo}`;
+
+    let sha: string | null;
+    if (!pr && FULL_SHA.test(ref)) {
+        sha = ref.toLowerCase();
+    } else if (lsRemote) {
+        // ls-remote only lists the peeled line of an annotated tag when asked for it by name
+        sha = pickRemoteRef(await lsRemote([ref, `${ref}^{}`]), ref);
+        if (!sha) {
+            throw new Error(pr
+                ? `Pull request #${pr} was not found in ${where}.`
+                : `Ref "${ref}" was not found in ${where}. Use a branch, a tag or a full 40-character commit SHA.`);
+        }
+    } else {
+        sha = pr ? await provider.pullRequestHead({ owner, repo, number: pr, ...ctx }) : await provider.resolveCommit({ owner, repo, ref, ...ctx });
+    }
+
+    const label = pr ? `PR #${pr}` : args.ref;
+    if (!at) return { sha, ref, label, ...(pr ? { pr } : {}) };
+
+    const before = await provider.lastCommitBefore({ owner, repo, ref: sha, path: args.samplePath, before: at, ...ctx });
+    if (!before) throw new Error(`No commit touched ${args.samplePath} at ${label} before ${at.toISOString()}.`);
+    return { sha: before, ref, label: `${label} before ${at.toISOString()}`, at: at.toISOString(), ...(pr ? { pr } : {}) };
+}
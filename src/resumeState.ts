@@ -0,0 +1,59 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** Progress of an interrupted API download, kept in the partial download folder. */
+export const RESUME_FILE = ".spfx-resume.json";
+
+export type ResumeState = {
+    owner: string;
+    repo: string;
+    ref: string;
+    /** Repository path of the sample, e.g. "samples/react-hello-world" */
+    sample: string;
+    /** SHA of the sample's tree when the download started; a rerun only resumes against the same tree */
+    tree: string;
+    /** Paths (relative to the sample folder) already written and verified */
+    completed: string[];
+};
+
+export async function readResumeState(dir: string): Promise<ResumeState | null> {
+    try {
+        const s = JSON.parse(await fs.readFile(path.join(dir, RESUME_FILE), "utf8"));
+        return s && typeof s.tree === "string" && Array.isArray(s.completed) ? (s as ResumeState) : null;
+    } catch {
+        return null;
+    }
+}
+
+export type ResumeRecorder = {
+    /** Record a completed file (writes are serialized, so concurrent downloads can call this freely) */
+    markDone(relPath: string): Promise<void>;
+    /** Delete the state file once the download is complete */
+    finish(): Promise<void>;
+};
+
+/**
+ * Start (or restart) recording progress for a download into `dir`.
+ */
+export async function startResumeState(dir: string, initial: ResumeState): Promise<ResumeRecorder> {
+    const file = path.join(dir, RESUME_FILE);
+    const state: ResumeState = { ...initial, completed: [...initial.completed] };
+    let queue = Promise.resolve();
+
+    const save = () => {
+        queue = queue.then(() => fs.writeFile(file, JSON.stringify(state), "utf8"));
+        return queue;
+    };
+    await save();
+
+    return {
+        markDone(relPath) {
+            state.completed.push(relPath);
+            return save();
+        },
+        async finish() {
+            await queue.catch(() => undefined);
+            await fs.rm(file, { force: true });
+        }
+    };
+}
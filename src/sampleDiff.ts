@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { MANIFEST_FILE } from "./sampleManifest";
+
+/** How `diff` prints the changes: a unified diff, a diffstat, or only the changed paths. */
+export type DiffFormat = "patch" | "stat" | "name-only";
+
+/**
+ * Paths of a project that are never compared with its sample, as `.gitignore` patterns: installed packages, the SPFx
+ * build output (also when a project's own `.gitignore` does not list them) and the manifest `get` writes.
+ */
+export const DIFF_EXCLUDES = ["node_modules/", ".pnpm-store/", "/lib/", "/temp/", "/dist/", "/release/", "/sharepoint/solution/", `/${MANIFEST_FILE}`];
+
+function git(args: string[], opts: { cwd?: string; env?: NodeJS.ProcessEnv } = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile("git", args, { ...opts, maxBuffer: 64 * 1024 * 1024, windowsHide: true }, (err, stdout, stderr) => {
+            if (!err) resolve(stdout);
+            else if (err.code === "ENOENT") reject(new Error("diff needs git to compare files, but git was not found on PATH."));
+            else reject(new Error(`git ${args.find((a, i) => !a.startsWith("-") && args[i - 1] !== "-c")} failed: ${stderr.trim() || err.message}`));
+        });
+    });
+}
+
+/**
+ * Compare two folders with `git diff`, from `upstream` to `local`, so the patch applies to the sample to give the
+ * project. Both are staged into a throwaway repository (each with its own `.gitignore` files, with CRLF read as LF),
+ * which also detects renamed files; {@link DIFF_EXCLUDES} are left out.
+ *
+ * Pass `output` to also write the patch, binary changes included, to that file.
+ *
+ * @returns The changed paths (relative to the folders) and the diff in the requested format.
+ * @throws Error when git is not installed or fails.
+ */
+export async function diffSampleFolders(opts: { upstream: string; local: string; format?: DiffFormat; output?: string }): Promise<{ files: string[]; text: string }> {
+    const gitDir = await fs.mkdtemp(path.join(os.tmpdir(), "spfx-diff-"));
+    try {
+        await git(["init", "-q", "--bare", gitDir]);
+        // in place of the user's global excludes, so only these and the folders' own .gitignore files count
+        const excludes = path.join(gitDir, "diff-excludes");
+        await fs.writeFile(excludes, DIFF_EXCLUDES.map((p) => `${p}\n`).join(""));
+        const config = [
+            "-c", "core.autocrlf=input", "-c", "core.safecrlf=false", "-c", "core.quotePath=false", "-c", "diff.mnemonicPrefix=false", "-c", "diff.noprefix=false",
+            "-c", `core.excludesFile=${excludes}`
+        ];
+        const stage = async (dir: string, name: string) => {
+            const env = { ...process.env, GIT_DIR: gitDir, GIT_WORK_TREE: dir, GIT_INDEX_FILE: path.join(gitDir, `index-${name}`) };
+            await git([...config, "add", "-A"], { cwd: dir, env });
+            return (await git([...config, "write-tree"], { cwd: dir, env })).trim();
+        };
+        const from = await stage(path.resolve(opts.upstream), "upstream");
+        const to = await stage(path.resolve(opts.local), "local");
+
+        const env = { ...process.env, GIT_DIR: gitDir };
+        const diff = (...args: string[]) => git([...config, "diff", "--no-color", "--no-ext-diff", "-M", ...args, from, to], { env });
+        const files = (await diff("--name-only", "-z")).split("\0").filter(Boolean);
+        const format = opts.format ?? "patch";
+        // a patch file must carry binary changes to apply; on screen they stay "Binary files differ"
+        if (opts.output) await fs.writeFile(opts.output, files.length ? await diff("--binary") : "");
+        if (files.length === 0) return { files, text: "" };
+        const text = format === "name-only" ? files.map((f) => `${f}\n`).join("") : await diff(...(format === "stat" ? ["--stat"] : []));
+        return { files, text };
+    } finally {
+        await fs.rm(gitDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+}
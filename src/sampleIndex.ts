@@ -0,0 +1,256 @@
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+
+import { createSemaphore, fetchRawText, listSamplesViaGitHubSubtree } from "./githubPartialSubtree";
+
+/**
+ * Searchable metadata for one sample folder, collected from `assets/sample.json`
+ * (and the README title when sample.json has none).
+ */
+export type SampleIndexEntry = {
+    name: string;               // folder name, e.g. "react-hello-world"
+    title?: string;
+    description?: string;
+    tags: string[];
+    authors: string[];          // display names and GitHub accounts
+    products: string[];
+    spfxVersion?: string;
+};
+
+export type SampleIndex = {
+    owner: string;
+    repo: string;
+    ref: string;
+    createdAt: string;          // ISO timestamp
+    samples: SampleIndexEntry[];
+};
+
+export type SearchFilters = {
+    tag?: string;
+    author?: string;
+    limit?: number;
+};
+
+export type SearchHit = { entry: SampleIndexEntry; score: number };
+
+// Ranking weights: a hit in the title matters most, then tags, then the folder name, then the description
+const WEIGHTS = { title: 8, tag: 5, name: 4, description: 2, other: 1 };
+
+/** The `assets/sample.json` fields the index reads; anything may be missing or of another type. */
+type SampleJsonItem = {
+    title?: unknown;
+    shortDescription?: unknown;
+    longDescription?: unknown;
+    description?: unknown;
+    tags?: unknown;
+    products?: unknown;
+    metadata?: unknown;
+    authors?: unknown;
+};
+
+/**
+ * Extract index fields from a parsed PnP `assets/sample.json`.
+ *
+ * The file is usually an array with a single entry, but a bare object is accepted too.
+ * Unknown shapes yield an empty result rather than throwing.
+ */
+export function parseSampleJson(json: unknown): Omit<SampleIndexEntry, "name"> {
+    const result: Omit<SampleIndexEntry, "name"> = { tags: [], authors: [], products: [] };
+    const first: unknown = Array.isArray(json) ? json[0] : json;
+    if (!first || typeof first !== "object") return result;
+    const item = first as SampleJsonItem;
+
+    if (typeof item.title === "string") result.title = item.title.trim();
+
+    const long = Array.isArray(item.longDescription) ? item.longDescription.join(" ") : item.longDescription;
+    const description = item.shortDescription || long || item.description;
+    if (typeof description === "string") result.description = description.trim();
+
+    if (Array.isArray(item.tags)) result.tags.push(...item.tags.filter((t: unknown) => typeof t === "string"));
+    if (Array.isArray(item.products)) result.products.push(...item.products.filter((p: unknown) => typeof p === "string"));
+
+    if (Array.isArray(item.metadata)) {
+        for (const m of item.metadata as Array<{ key?: unknown; value?: unknown } | null>) {
+            if (!m || typeof m.value !== "string") continue;
+            const key = String(m.key ?? "").toUpperCase();
+            if (key === "SPFX-VERSION") result.spfxVersion = m.value;
+            // e.g. CLIENT-SIDE-DEV: "React" — useful as a tag
+            else if (key === "CLIENT-SIDE-DEV") result.tags.push(m.value);
+        }
+    }
+
+    if (Array.isArray(item.authors)) {
+        for (const a of item.authors as Array<{ name?: unknown; gitHubAccount?: unknown } | null>) {
+            if (!a) continue;
+            if (typeof a.name === "string" && a.name.trim()) result.authors.push(a.name.trim());
+            if (typeof a.gitHubAccount === "string" && a.gitHubAccount.trim()) result.authors.push(a.gitHubAccount.trim());
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Return the text of the first level-1 markdown heading, if any.
+ */
+export function parseReadmeTitle(markdown: string): string | undefined {
+    const m = markdown.match(/^#\s+(.+?)\s*#*\s*$/m);
+    return m ? m[1].trim() : undefined;
+}
+
+/**
+ * Build a metadata index for every sample in a repo.
+ *
+ * Lists the sample folders via the tree API, then fetches `assets/sample.json` for each one
+ * (falling back to the README title). Missing or malformed files never fail the build;
+ * that sample is simply indexed by its folder name only.
+ */
+export async function buildSampleIndex(opts: {
+    owner: string;
+    repo: string;
+    ref: string;
+    concurrency?: number;
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    onProgress?: (done: number, total: number) => void;
+    listSamples?: typeof listSamplesViaGitHubSubtree;
+    fetchText?: typeof fetchRawText;
+}): Promise<SampleIndex> {
+    const { owner, repo, ref, signal, verbose, token } = opts;
+    const listSamples = opts.listSamples ?? listSamplesViaGitHubSubtree;
+    const fetchText = opts.fetchText ?? fetchRawText;
+
+    const names = await listSamples({ owner, repo, ref, signal, verbose, token });
+    const sem = createSemaphore(opts.concurrency ?? 8);
+    let done = 0;
+
+    const samples = await Promise.all(
+        names.map(name =>
+            sem(async (): Promise<SampleIndexEntry> => {
+                if (signal?.aborted) throw new Error("Indexing aborted");
+                const entry: SampleIndexEntry = { name, tags: [], authors: [], products: [] };
+
+                try {
+                    const txt = await fetchText({ owner, repo, ref, path: `samples/${name}/assets/sample.json`, signal, verbose, token });
+                    if (txt) Object.assign(entry, parseSampleJson(JSON.parse(txt.replace(/^\uFEFF/, ""))));
+                } catch (e) {
+                    if (signal?.aborted) throw e;
+                    verbose && console.error(`[debug] could not read sample.json for ${name}: ${(e as Error).message}`);
+                }
+
+                if (!entry.title) {
+                    try {
+                        const md = await fetchText({ owner, repo, ref, path: `samples/${name}/README.md`, signal, verbose, token });
+                        if (md) entry.title = parseReadmeTitle(md);
+                    } catch (e) {
+                        if (signal?.aborted) throw e;
+                    }
+                }
+
+                done++;
+                opts.onProgress?.(done, names.length);
+                return entry;
+            })
+        )
+    );
+
+    return { owner, repo, ref, createdAt: new Date().toISOString(), samples };
+}
+
+function indexCacheFile(owner: string, repo: string, ref: string): string {
+    const safe = (s: string) => s.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return path.join(os.tmpdir(), "spfx-sample-cli", `index-${safe(owner)}-${safe(repo)}-${safe(ref)}.json`);
+}
+
+const INDEX_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+/**
+ * Read a previously built index from the on-disk cache without touching the network.
+ *
+ * @returns The cached index, or `null` when it is missing, unreadable or older than `ttlMs`.
+ */
+export async function readCachedSampleIndex(owner: string, repo: string, ref: string, ttlMs = INDEX_TTL_MS): Promise<SampleIndex | null> {
+    const cacheFile = indexCacheFile(owner, repo, ref);
+    try {
+        const st = await fs.stat(cacheFile).catch(() => null);
+        if (st && (Date.now() - st.mtimeMs) < ttlMs) {
+            const txt = await fs.readFile(cacheFile, "utf8").catch(() => null);
+            if (txt) return JSON.parse(txt) as SampleIndex;
+        }
+    } catch {
+        // ignore cache read errors
+    }
+    return null;
+}
+
+/**
+ * Return the sample index for a repo/ref, building it only when the on-disk cache is missing or stale.
+ *
+ * Cached alongside the SPFx matrix in `<tmpdir>/spfx-sample-cli` with the same 24 hour TTL.
+ */
+export async function getSampleIndex(opts: Parameters<typeof buildSampleIndex>[0] & { refresh?: boolean; ttlMs?: number }): Promise<SampleIndex> {
+    const cacheFile = indexCacheFile(opts.owner, opts.repo, opts.ref);
+
+    if (!opts.refresh) {
+        const cached = await readCachedSampleIndex(opts.owner, opts.repo, opts.ref, opts.ttlMs);
+        if (cached) {
+            opts.verbose && console.error(`[debug] using cached index ${cacheFile}`);
+            return cached;
+        }
+    }
+
+    const index = await buildSampleIndex(opts);
+    try {
+        await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+        await fs.writeFile(cacheFile, JSON.stringify(index), "utf8");
+    } catch {
+        // ignore cache write failures
+    }
+    return index;
+}
+
+function includesCi(haystack: string | undefined, needle: string): boolean {
+    return !!haystack && haystack.toLowerCase().includes(needle);
+}
+
+/**
+ * Rank index entries against a free-text query.
+ *
+ * Every query term must match somewhere (name, title, tags, description, authors or products);
+ * the score sums the weight of the best field each term matched. `tag` and `author` filters are
+ * case-insensitive substring matches applied before ranking. Ties are broken by folder name.
+ */
+export function searchSampleIndex(index: SampleIndex, query: string, filters: SearchFilters = {}): SearchHit[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const tag = filters.tag?.trim().toLowerCase();
+    const author = filters.author?.trim().toLowerCase();
+
+    const hits: SearchHit[] = [];
+    for (const entry of index.samples) {
+        if (tag && !entry.tags.some(t => includesCi(t, tag))) continue;
+        if (author && !entry.authors.some(a => includesCi(a, author))) continue;
+
+        let score = 0;
+        let matchedAll = true;
+        for (const term of terms) {
+            let best = 0;
+            if (includesCi(entry.title, term)) best = Math.max(best, WEIGHTS.title);
+            if (entry.tags.some(t => includesCi(t, term))) best = Math.max(best, WEIGHTS.tag);
+            if (includesCi(entry.name, term)) best = Math.max(best, WEIGHTS.name);
+            if (includesCi(entry.description, term)) best = Math.max(best, WEIGHTS.description);
+            if (entry.authors.some(a => includesCi(a, term)) || entry.products.some(p => includesCi(p, term))) {
+                best = Math.max(best, WEIGHTS.other);
+            }
+            if (best === 0) { matchedAll = false; break; }
+            score += best;
+        }
+        if (!matchedAll) continue;
+
+        hits.push({ entry, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+    return filters.limit ? hits.slice(0, filters.limit) : hits;
+}
@@ -0,0 +1,200 @@
+import { fetchLastCommitDate, fetchRawText, fetchSampleTree } from "./githubPartialSubtree";
+import type { TreeItem } from "./githubPartialSubtree";
+import type { SourceProvider } from "./sourceProvider";
+import { parseSampleJson } from "./sampleIndex";
+import { samplePathOf } from "./sampleTarget";
+import { detectSpfxVersion, findSpfxMatrixEntry, normalizeSpfxMatrix, parseSemverLoose } from "./spfxVersion";
+
+export type ComponentType = "web part" | "extension" | "ACE" | "library";
+
+/**
+ * Summary of a remote sample, gathered without downloading it.
+ */
+export type SampleInfo = {
+    owner: string;
+    repo: string;
+    ref: string;
+    sample: string;             // folder name
+    path: string;               // repository path, e.g. "samples/react-hello-world"
+    title?: string;
+    description?: string;
+    authors: string[];
+    spfxVersion?: string;
+    spfxVersionSource?: string; // e.g. "@microsoft/sp-core-library", ".yo-rc.json", "assets/sample.json"
+    nodeVersion?: string;
+    nodeVersionSource?: ".nvmrc" | "spfx-matrix";
+    lastModified?: string;      // ISO timestamp of the last commit touching the sample
+    fileCount: number;
+    totalSize: number;          // bytes
+    componentTypes: ComponentType[];
+};
+
+// Folder conventions of the SPFx Yeoman generator → component type
+const COMPONENT_FOLDERS: Array<[string, ComponentType]> = [
+    ["src/webparts/", "web part"],
+    ["src/extensions/", "extension"],
+    ["src/adaptiveCardExtensions/", "ACE"],
+    ["src/libraries/", "library"]
+];
+
+// .yo-rc.json `componentType` values → component type
+const YO_COMPONENT_TYPES: Record<string, ComponentType> = {
+    webpart: "web part",
+    extension: "extension",
+    adaptivecardextension: "ACE",
+    library: "library"
+};
+
+/**
+ * Derive the SPFx component types of a project from its file listing and (optionally) its `.yo-rc.json`.
+ */
+export function detectComponentTypes(items: Pick<TreeItem, "path">[], yoRc?: any): ComponentType[] {
+    const found = new Set<ComponentType>();
+    for (const item of items) {
+        const p = item.path.replaceAll("\\", "/");
+        for (const [prefix, type] of COMPONENT_FOLDERS) {
+            if (p.startsWith(prefix) && p.endsWith(".manifest.json")) found.add(type);
+        }
+    }
+    const yoType = yoRc?.["@microsoft/generator-sharepoint"]?.componentType;
+    if (typeof yoType === "string" && YO_COMPONENT_TYPES[yoType.toLowerCase()]) {
+        found.add(YO_COMPONENT_TYPES[yoType.toLowerCase()]);
+    }
+    return COMPONENT_FOLDERS.map(([, t]) => t).filter((t) => found.has(t));
+}
+
+function parseJsonSafe(txt: string | null): any {
+    if (!txt) return null;
+    try {
+        return JSON.parse(txt.replace(/^\uFEFF/, ""));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Collect metadata about a sample using only the tree API, the commits API and a handful of raw file fetches
+ * (`package.json`, `.yo-rc.json`, `.nvmrc`, `assets/sample.json`).
+ *
+ * The SPFx version is inferred the same way as the post-download Node advice (from `@microsoft/sp-*` dependencies),
+ * then `.yo-rc.json` and `assets/sample.json`. The recommended Node version comes from `.nvmrc`, or else the SPFx matrix.
+ */
+export async function collectSampleInfo(opts: {
+    owner: string;
+    repo: string;
+    ref: string;
+    sampleFolder: string;
+    /** Repository folder holding the samples (default "samples", "" for the root) */
+    samplesPath?: string;
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    /** The host to read from (default github.com) */
+    provider?: SourceProvider;
+    /** Returns the raw SPFx compatibility matrix JSON (or null when unavailable) */
+    getMatrix?: () => Promise<any | null>;
+    fetchTree?: typeof fetchSampleTree;
+    fetchText?: typeof fetchRawText;
+    fetchLastCommit?: typeof fetchLastCommitDate;
+}): Promise<SampleInfo> {
+    const { owner, repo, ref, sampleFolder, samplesPath, signal, verbose, token, provider } = opts;
+    const fetchTree = opts.fetchTree ?? fetchSampleTree;
+    const fetchText = opts.fetchText ?? fetchRawText;
+    const fetchLastCommit = opts.fetchLastCommit ?? fetchLastCommitDate;
+
+    const base = samplePathOf(sampleFolder, samplesPath);
+    const text = (rel: string) => fetchText({ owner, repo, ref, path: `${base}/${rel}`, signal, verbose, token, provider });
+
+    // The tree listing also validates that the sample exists, so let its error surface first
+    const items = await fetchTree({ owner, repo, ref, sampleFolder, samplesPath, signal, verbose, token, provider });
+    const [pkgTxt, yoTxt, nvmrcTxt, sampleJsonTxt, lastModified] = await Promise.all([
+        text("package.json"),
+        text(".yo-rc.json"),
+        text(".nvmrc"),
+        text("assets/sample.json"),
+        fetchLastCommit({ owner, repo, ref, path: base, signal, verbose, token, provider }).catch(() => null)
+    ]);
+
+    const blobs = items.filter((i) => i.type === "blob");
+    const pkg = parseJsonSafe(pkgTxt);
+    const yoRc = parseJsonSafe(yoTxt);
+    const meta = parseSampleJson(parseJsonSafe(sampleJsonTxt));
+
+    const info: SampleInfo = {
+        owner,
+        repo,
+        ref,
+        sample: sampleFolder,
+        path: base,
+        title: meta.title,
+        description: meta.description,
+        authors: meta.authors,
+        lastModified: lastModified ?? undefined,
+        fileCount: blobs.length,
+        totalSize: blobs.reduce((sum, b) => sum + (b.size ?? 0), 0),
+        componentTypes: detectComponentTypes(items, yoRc)
+    };
+
+    const detected = detectSpfxVersion(pkg);
+    const yoVersion = yoRc?.["@microsoft/generator-sharepoint"]?.version;
+    if (detected) {
+        info.spfxVersion = `${detected.sem.major}.${detected.sem.minor}.${detected.sem.patch}`;
+        info.spfxVersionSource = detected.pkg;
+    } else if (typeof yoVersion === "string" && parseSemverLoose(yoVersion)) {
+        info.spfxVersion = yoVersion;
+        info.spfxVersionSource = ".yo-rc.json";
+    } else if (meta.spfxVersion) {
+        info.spfxVersion = meta.spfxVersion;
+        info.spfxVersionSource = "assets/sample.json";
+    }
+
+    const nvmrc = nvmrcTxt?.split(/\r?\n/)[0].trim();
+    if (nvmrc) {
+        info.nodeVersion = nvmrc;
+        info.nodeVersionSource = ".nvmrc";
+    } else if (info.spfxVersion && opts.getMatrix) {
+        const sem = parseSemverLoose(info.spfxVersion);
+        const matrix = await opts.getMatrix().catch(() => null);
+        const entry = sem && matrix ? findSpfxMatrixEntry(normalizeSpfxMatrix(matrix), sem) : null;
+        if (entry?.node) {
+            info.nodeVersion = entry.node;
+            info.nodeVersionSource = "spfx-matrix";
+        }
+    }
+
+    return info;
+}
+
+export type SamplePreview = Pick<SampleInfo, "title" | "description" | "spfxVersion">;
+
+/**
+ * Lightweight subset of {@link collectSampleInfo} for previews: reads `assets/sample.json`,
+ * and `package.json` only when sample.json does not state the SPFx version.
+ */
+export async function collectSamplePreview(opts: {
+    owner: string;
+    repo: string;
+    ref: string;
+    sampleFolder: string;
+    signal?: AbortSignal;
+    verbose?: boolean;
+    token?: string;
+    /** Repository folder holding the samples (default "samples", "" for the root) */
+    samplesPath?: string;
+    /** The host to read from (default github.com) */
+    provider?: SourceProvider;
+    fetchText?: typeof fetchRawText;
+}): Promise<SamplePreview> {
+    const { owner, repo, ref, sampleFolder, signal, verbose, token, provider } = opts;
+    const fetchText = opts.fetchText ?? fetchRawText;
+    const base = samplePathOf(sampleFolder, opts.samplesPath);
+    const text = (rel: string) => fetchText({ owner, repo, ref, path: `${base}/${rel}`, signal, verbose, token, provider });
+
+    const meta = parseSampleJson(parseJsonSafe(await text("assets/sample.json")));
+    const preview: SamplePreview = { title: meta.title, description: meta.description, spfxVersion: meta.spfxVersion };
+    if (!preview.spfxVersion) {
+        const detected = detectSpfxVersion(parseJsonSafe(await text("package.json")));
+        if (detected) preview.spfxVersion = `${detected.sem.major}.${detected.sem.minor}.${detected.sem.patch}`;
+    }
+    return preview;
+}
@@ -0,0 +1,68 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Method } from "./cliOptions";
+import type { ProviderName } from "./sourceProvider";
+
+/**
+ * Written into every extracted sample folder; records where the files came from (repository, requested ref and the
+ * commit it resolved to), how and by which version they were fetched, and what was changed afterwards.
+ */
+export const MANIFEST_FILE = ".spfx-sample.json";
+
+/** `mode` is only recorded for entries that are not regular files (`100755` executable, `120000` symlink). */
+export type ManifestFile = { path: string; sha: string; size?: number; mode?: string };
+
+/** Changes `get` made to the project after downloading it (`--rename`, `--newid`) */
+export type AppliedChanges = { rename?: string; newId?: string };
+
+export type SampleManifest = {
+    /** Set for repositories that are not on github.com, e.g. "gitlab.com" */
+    host?: string;
+    /** The service `host` runs (or "local" for a `--source` folder), when `host` is set */
+    provider?: ProviderName;
+    owner: string;
+    repo: string;
+    ref: string;
+    /** The commit SHA `ref` resolved to (absent for `--offline` copies) */
+    commit?: string;
+    /** Pull request number, for `--pr` */
+    pr?: number;
+    /** The `--at` cut-off date (ISO), when the commit was picked by date */
+    at?: string;
+    sample: string;
+    /** Repository path of the sample folder, e.g. "samples/react-hello-world" */
+    path?: string;
+    method: Exclude<Method, "auto">;
+    /** Version of spfx-sample that downloaded the sample */
+    cliVersion?: string;
+    createdAt: string;
+    /** When `update` last merged a newer version in (`commit` and `files` are then those of that version) */
+    updatedAt?: string;
+    /** Set when the project was renamed or given a new id; `files` still lists the files as downloaded */
+    applied?: AppliedChanges;
+    /** Every file as downloaded, with its git blob SHA (paths relative to the sample folder, "/"-separated) */
+    files: ManifestFile[];
+};
+
+export async function writeSampleManifest(dir: string, manifest: SampleManifest): Promise<void> {
+    const files = [...manifest.files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+    await fs.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify({ ...manifest, files }, null, 2) + "\n", "utf8");
+}
+
+/**
+ * @returns The manifest of a sample folder, or `null` when there is none.
+ * @throws Error when the file exists but is not a valid manifest.
+ */
+export async function readSampleManifest(dir: string): Promise<SampleManifest | null> {
+    let txt: string;
+    try {
+        txt = await fs.readFile(path.join(dir, MANIFEST_FILE), "utf8");
+    } catch {
+        return null;
+    }
+    const m = JSON.parse(txt);
+    if (!m || typeof m !== "object" || !Array.isArray(m.files)) {
+        throw new Error(`${path.join(dir, MANIFEST_FILE)} is not a valid sample manifest.`);
+    }
+    return m as SampleManifest;
+}
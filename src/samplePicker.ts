@@ -0,0 +1,207 @@
+import readline from "node:readline";
+import chalk from "chalk";
+
+/**
+ * Score how well `query` fuzzy-matches `text`: every query character must appear in order.
+ *
+ * Consecutive characters and characters at the start of a word (after "-", "_", "." or a case change)
+ * score higher, and shorter texts win ties. Returns `null` when `text` does not match at all.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const q = query.toLowerCase().replace(/\s+/g, "");
+    if (!q) return 0;
+    const t = text.toLowerCase();
+
+    let score = 0;
+    let ti = 0;
+    let prevMatch = -2;
+    for (const ch of q) {
+        const found = t.indexOf(ch, ti);
+        if (found < 0) return null;
+        const wordStart = found === 0 || /[-_. /]/.test(text[found - 1]) || (/[a-z]/.test(text[found - 1]) && /[A-Z]/.test(text[found]));
+        score += 1;
+        if (found === prevMatch + 1) score += 3;
+        if (wordStart) score += 2;
+        prevMatch = found;
+        ti = found + 1;
+    }
+    return score - text.length * 0.01;
+}
+
+/**
+ * Filter and rank names by {@link fuzzyScore}; an empty query keeps the original order.
+ */
+export function fuzzyFilter(query: string, names: string[]): string[] {
+    if (!query.trim()) return [...names];
+    return names
+        .map((name) => ({ name, score: fuzzyScore(query, name) }))
+        .filter((x): x is { name: string; score: number } => x.score !== null)
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        .map((x) => x.name);
+}
+
+export type PickSampleOptions = {
+    names: string[];
+    /** Lines to show in the preview pane for a sample (e.g. description, SPFx version); called lazily and cached */
+    describe?: (name: string) => Promise<string[]>;
+    title?: string;
+    pageSize?: number;
+    input?: NodeJS.ReadStream;
+    output?: NodeJS.WriteStream;
+};
+
+function truncate(s: string, width: number): string {
+    if (width <= 0) return "";
+    return s.length > width ? `${s.slice(0, Math.max(0, width - 1))}…` : s;
+}
+
+function wrap(s: string, width: number): string[] {
+    const out: string[] = [];
+    for (const para of s.split(/\r?\n/)) {
+        let line = "";
+        for (const word of para.split(/\s+/).filter(Boolean)) {
+            if (line && line.length + word.length + 1 > width) {
+                out.push(line);
+                line = word;
+            } else {
+                line = line ? `${line} ${word}` : word;
+            }
+        }
+        out.push(truncate(line, width));
+    }
+    return out;
+}
+
+/**
+ * Inline interactive picker: type to fuzzy-filter, ↑/↓ (or PgUp/PgDn) to move, Enter to select, Esc/Ctrl-C to cancel.
+ *
+ * Renders a list on the left and a preview pane on the right with the lines returned by `describe`.
+ * Requires a TTY for both input and output.
+ *
+ * @returns The selected name, or `null` when the user cancelled.
+ */
+export function pickSample(opts: PickSampleOptions): Promise<string | null> {
+    const input = opts.input ?? process.stdin;
+    const output = opts.output ?? process.stdout;
+    const pageSize = opts.pageSize ?? 12;
+    const previews = new Map<string, string[] | "loading">();
+
+    let query = "";
+    let matches = [...opts.names];
+    let cursor = 0;
+    let offset = 0;
+    let renderedLines = 0;
+    let previewTimer: NodeJS.Timeout | undefined;
+
+    return new Promise((resolve) => {
+        readline.emitKeypressEvents(input);
+        const wasRaw = input.isRaw;
+        input.setRawMode?.(true);
+        input.resume();
+        output.write("\x1b[?25l"); // hide cursor
+
+        const loadPreview = (name: string) => {
+            if (!opts.describe || previews.has(name)) return;
+            previews.set(name, "loading");
+            opts.describe(name)
+                .then((lines) => previews.set(name, lines))
+                .catch(() => previews.set(name, ["(no details available)"]))
+                .finally(() => { if (matches[cursor] === name) render(); });
+        };
+
+        const render = () => {
+            const columns = output.columns || 100;
+            const listWidth = opts.describe ? Math.min(48, Math.floor(columns * 0.45)) : columns - 4;
+            const previewWidth = columns - listWidth - 7;
+
+            const selected = matches[cursor];
+            const preview = !selected ? [] : previews.get(selected);
+            const previewLines = preview === "loading" || (opts.describe && preview === undefined)
+                ? [chalk.gray("Loading…")]
+                : (preview ?? []).flatMap((l) => wrap(l, Math.max(10, previewWidth)));
+
+            const lines: string[] = [];
+            lines.push(`${chalk.green("?")} ${chalk.bold(opts.title ?? "Pick a sample")} ${chalk.gray("(type to filter, ↑/↓ to move, Enter to select, Esc to cancel)")}`);
+            lines.push(`${chalk.cyan("›")} ${query}${chalk.inverse(" ")}`);
+            for (let i = 0; i < pageSize; i++) {
+                const idx = offset + i;
+                const name = matches[idx];
+                let left = "";
+                if (name !== undefined) {
+                    const label = truncate(name, listWidth);
+                    left = idx === cursor ? `${chalk.cyan("❯")} ${chalk.cyan.bold(label)}` : `  ${label}`;
+                    left += " ".repeat(Math.max(0, listWidth - label.length));
+                } else {
+                    left = " ".repeat(listWidth + 2);
+                }
+                lines.push(opts.describe ? `${left} ${chalk.gray("│")} ${previewLines[i] ?? ""}` : left);
+            }
+            lines.push(chalk.gray(matches.length === 0 ? "No matching samples" : `${cursor + 1}/${matches.length}${matches.length !== opts.names.length ? ` (of ${opts.names.length})` : ""}`));
+
+            if (renderedLines > 0) {
+                readline.moveCursor(output, 0, -renderedLines);
+                readline.cursorTo(output, 0);
+                readline.clearScreenDown(output);
+            }
+            output.write(lines.map((l) => `${l}\x1b[K`).join("\n") + "\n");
+            renderedLines = lines.length;
+
+            if (selected && opts.describe && !previews.has(selected)) {
+                // debounce preview fetches while the user scrolls quickly
+                clearTimeout(previewTimer);
+                previewTimer = setTimeout(() => loadPreview(selected), 150);
+            }
+        };
+
+        const move = (delta: number) => {
+            if (matches.length === 0) return;
+            cursor = Math.max(0, Math.min(matches.length - 1, cursor + delta));
+            if (cursor < offset) offset = cursor;
+            if (cursor >= offset + pageSize) offset = cursor - pageSize + 1;
+        };
+
+        const finish = (result: string | null) => {
+            clearTimeout(previewTimer);
+            input.removeListener("keypress", onKeypress);
+            input.setRawMode?.(wasRaw);
+            input.pause();
+            if (renderedLines > 0) {
+                readline.moveCursor(output, 0, -renderedLines);
+                readline.cursorTo(output, 0);
+                readline.clearScreenDown(output);
+            }
+            output.write("\x1b[?25h"); // show cursor
+            resolve(result);
+        };
+
+        const onKeypress = (str: string | undefined, key: readline.Key | undefined) => {
+            if (key?.ctrl && key.name === "c") return finish(null);
+            switch (key?.name) {
+                case "escape": return finish(null);
+                case "return":
+                case "enter": return finish(matches[cursor] ?? null);
+                case "up": move(-1); break;
+                case "down": move(1); break;
+                case "pageup": move(-pageSize); break;
+                case "pagedown": move(pageSize); break;
+                case "backspace":
+                    query = query.slice(0, -1);
+                    matches = fuzzyFilter(query, opts.names);
+                    cursor = offset = 0;
+                    break;
+                default:
+                    if (str && !key?.ctrl && !key?.meta && str >= " " && str.length === 1) {
+                        query += str;
+                        matches = fuzzyFilter(query, opts.names);
+                        cursor = offset = 0;
+                    } else {
+                        return;
+                    }
+            }
+            render();
+        };
+
+        input.on("keypress", onKeypress);
+        render();
+    });
+}
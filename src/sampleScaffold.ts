@@ -0,0 +1,238 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { detectComponentTypes } from "./sampleInfo";
+import type { ComponentType } from "./sampleInfo";
+import { detectSpfxVersion, parseSemverLoose } from "./spfxVersion";
+
+/**
+ * What the PnP sample README and `assets/sample.json` are filled with; missing values become placeholders for the
+ * contributor to replace.
+ */
+export type ScaffoldInfo = {
+    /** Sample folder name, e.g. "react-my-sample" */
+    name: string;
+    /** Repository path of the sample folder, e.g. "samples/react-my-sample" */
+    path: string;
+    /** Repository the sample is contributed to */
+    owner: string;
+    repo: string;
+    title: string;
+    description?: string;
+    spfxVersion?: string;
+    nodeVersion?: string;
+    /** e.g. "React", "No framework" */
+    framework?: string;
+    componentTypes: ComponentType[];
+    author: { name?: string; gitHubAccount?: string };
+    date: Date;
+};
+
+/** What an SPFx project says about itself: the scaffold fields read from its files. */
+export type ProjectInfo = Pick<ScaffoldInfo, "title" | "description" | "spfxVersion" | "nodeVersion" | "framework" | "componentTypes">;
+
+// descriptions the Yeoman generator leaves in package.json
+const GENERATED_DESCRIPTIONS = new Set(["", "description"]);
+
+const FRAMEWORKS: Array<[string, string]> = [["react", "React"], ["vue", "Vue.js"], ["@angular/core", "Angular"], ["knockout", "Knockout"]];
+
+// `sample.json` names are prefixed by repository, as in the PnP repositories' own samples
+const NAME_PREFIXES: Record<string, string> = {
+    "sp-dev-fx-webparts": "pnp-sp-dev-spfx-web-parts",
+    "sp-dev-fx-extensions": "pnp-sp-dev-spfx-extensions",
+    "sp-dev-fx-aces": "pnp-sp-dev-spfx-aces",
+    "sp-dev-fx-library-components": "pnp-sp-dev-spfx-library-components"
+};
+
+async function readJson(file: string): Promise<any> {
+    try {
+        return JSON.parse((await fs.readFile(file, "utf8")).replace(/^\uFEFF/, ""));
+    } catch {
+        return null;
+    }
+}
+
+/** Project-relative paths of the component manifests below `src/` (what {@link detectComponentTypes} looks at). */
+async function listManifests(dir: string, rel = "src"): Promise<string[]> {
+    const entries = await fs.readdir(path.join(dir, ...rel.split("/")), { withFileTypes: true }).catch(() => []);
+    const found: string[] = [];
+    for (const e of entries) {
+        const p = `${rel}/${e.name}`;
+        if (e.isDirectory() && e.name !== "node_modules") found.push(...await listManifests(dir, p));
+        else if (e.name.endsWith(".manifest.json")) found.push(p);
+    }
+    return found;
+}
+
+/** "react-my-sample" → "React My Sample" */
+function titleOf(name: string): string {
+    return name.split(/[-_\s]+/).filter(Boolean).map((w) => w[0].toUpperCase() + w.slice(1)).join(" ");
+}
+
+/**
+ * Read the scaffold fields from an SPFx project folder: the title from the sample name, the description from
+ * `package.json`, the SPFx version from its `@microsoft/sp-*` dependencies (or `.yo-rc.json`),
+ * the Node version from `.nvmrc` (or `engines.node`), the UI framework from its dependencies, and the component
+ * types from its manifests.
+ */
+export async function readProjectInfo(dir: string, name: string): Promise<ProjectInfo> {
+    const [pkg, yoRc, nvmrc] = await Promise.all([
+        readJson(path.join(dir, "package.json")),
+        readJson(path.join(dir, ".yo-rc.json")),
+        fs.readFile(path.join(dir, ".nvmrc"), "utf8").catch(() => null)
+    ]);
+    const gen = yoRc?.["@microsoft/generator-sharepoint"] ?? {};
+    const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+
+    const info: ProjectInfo = { title: titleOf(name), componentTypes: detectComponentTypes((await listManifests(dir)).map((p) => ({ path: p })), yoRc) };
+    const description = typeof pkg?.description === "string" ? pkg.description.trim() : "";
+    if (!GENERATED_DESCRIPTIONS.has(description.toLowerCase())) info.description = description;
+
+    const detected = detectSpfxVersion(pkg);
+    if (detected) info.spfxVersion = `${detected.sem.major}.${detected.sem.minor}.${detected.sem.patch}`;
+    else if (typeof gen.version === "string" && parseSemverLoose(gen.version)) info.spfxVersion = gen.version;
+
+    const node = nvmrc?.split(/\r?\n/)[0].trim() || (typeof pkg?.engines?.node === "string" ? pkg.engines.node.trim() : "");
+    if (node) info.nodeVersion = node;
+
+    // .yo-rc.json of older generators names the framework ("react", "knockout", "none")
+    const yoFramework = typeof gen.framework === "string" ? gen.framework.toLowerCase() : undefined;
+    const framework = FRAMEWORKS.find(([dep, label]) => yoFramework ? dep === yoFramework || label.toLowerCase().startsWith(yoFramework) : !!deps[dep]);
+    info.framework = framework?.[1] ?? "No framework";
+    return info;
+}
+
+const badge = (label: string, message: string, color = "green") =>
+    `https://img.shields.io/badge/${[label, message, color].map((s) => encodeURIComponent(s.replaceAll("-", "--").replaceAll("_", "__"))).join("-")}.svg`;
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+function sampleUrl(info: ScaffoldInfo, kind: "tree" | "raw", rel = ""): string {
+    return `https://github.com/${info.owner}/${info.repo}/${kind}/main/${info.path}${rel ? `/${rel}` : ""}`;
+}
+
+/**
+ * The sample README in the PnP template format: summary and screenshot, compatibility badges, contributors,
+ * version history, minimal path to awesome, features, help and disclaimer sections.
+ */
+export function renderSampleReadme(info: ScaffoldInfo): string {
+    const account = info.author.gitHubAccount ?? "YourGitHubAccount";
+    const badges = [
+        info.spfxVersion ? `![SPFx ${info.spfxVersion}](${badge("SPFx", info.spfxVersion)})` : "![SPFx version](https://img.shields.io/badge/SPFx-x.y.z-green.svg)",
+        info.nodeVersion ? `![Node.js ${info.nodeVersion}](${badge("Node.js", info.nodeVersion)})` : "![Node.js version](https://img.shields.io/badge/Node.js-vXX-green.svg)",
+        `![Compatible with SharePoint Online](${badge("SharePoint Online", "Compatible")})`,
+        `![Does not work with SharePoint 2019](${badge("SharePoint Server 2019", "Incompatible", "red")})`,
+        `![Does not work with SharePoint 2016 (Feature Pack 2)](${badge("SharePoint Server 2016 (Feature Pack 2)", "Incompatible", "red")})`,
+        `![Local Workbench Unsupported](${badge("Local Workbench", "Unsupported", "red")})`,
+        `![Hosted Workbench Compatible](${badge("Hosted Workbench", "Compatible")})`
+    ];
+    const kind = info.componentTypes[0] ?? "web part";
+    return [
+        `# ${info.title}`,
+        "",
+        "## Summary",
+        "",
+        info.description ?? "Short summary on functionality and used technologies.",
+        "",
+        `![${info.title}](./assets/screenshot.png)`,
+        "",
+        "## Compatibility",
+        "",
+        "| :warning: Important |",
+        "|:---------------------------|",
+        "| Every SPFx version is only compatible with specific version(s) of Node.js. In order to be able to build this sample, please ensure that the version of Node on your workstation matches one of the versions listed in this section. This sample will not work on a different version of Node.|",
+        "| Refer to <https://aka.ms/spfx-matrix> for more information on SPFx compatibility. |",
+        "",
+        "This sample is optimally compatible with the following environment configuration:",
+        "",
+        ...badges,
+        "",
+        "For more information about SPFx compatibility, please refer to <https://aka.ms/spfx-matrix>",
+        "",
+        "## Applies to",
+        "",
+        "- [SharePoint Framework](https://aka.ms/spfx)",
+        "- [Microsoft 365 tenant](https://learn.microsoft.com/sharepoint/dev/spfx/set-up-your-developer-tenant)",
+        "",
+        "> Get your own free development tenant by subscribing to [Microsoft 365 developer program](http://aka.ms/o365devprogram)",
+        "",
+        "## Contributors",
+        "",
+        `- [${info.author.name ?? account}](https://github.com/${account})`,
+        "",
+        "## Version history",
+        "",
+        "| Version | Date | Comments |",
+        "| ------- | ---- | -------- |",
+        `| 1.0 | ${info.date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" })} | Initial release |`,
+        "",
+        "## Minimal path to awesome",
+        "",
+        `- Clone this repository (or [download this solution as a .ZIP file](https://pnp.github.io/download-partial/?url=${sampleUrl(info, "tree")}) then unzip it)`,
+        `- From your command line, change your current directory to the directory containing this sample (\`${info.name}\`, located under \`${path.posix.dirname(info.path)}\`)`,
+        "- in the command line run:",
+        "  - `npm install`",
+        "  - `gulp serve`",
+        "",
+        "## Features",
+        "",
+        `Description of the ${kind} that expands upon the high-level summary above.`,
+        "",
+        `This ${kind} illustrates the following concepts:`,
+        "",
+        "- topic 1",
+        "- topic 2",
+        "",
+        "## Help",
+        "",
+        "We do not support samples, but this community is always willing to help, and we want to improve these samples. We use GitHub to track issues, which makes it easy for community members to volunteer their time and help resolve issues.",
+        "",
+        `If you're having issues building the solution, please run [spfx doctor](https://pnp.github.io/cli-microsoft365/cmd/spfx/spfx-doctor/) from within the solution folder to diagnose incompatibility issues with your environment.`,
+        "",
+        `You can try looking at [issues related to this sample](https://github.com/${info.owner}/${info.repo}/issues?q=label%3A%22sample%3A%20${info.name}%22) to see if anybody else is having the same issues.`,
+        "",
+        `If you encounter any issues using this sample, [create a new issue](https://github.com/${info.owner}/${info.repo}/issues/new).`,
+        "",
+        "## Disclaimer",
+        "",
+        "**THIS CODE IS PROVIDED *AS IS* WITHOUT WARRANTY OF ANY KIND, EITHER EXPRESS OR IMPLIED, INCLUDING ANY IMPLIED WARRANTIES OF FITNESS FOR A PARTICULAR PURPOSE, MERCHANTABILITY, OR NON-INFRINGEMENT.**",
+        "",
+        `<img src="https://m365-visitor-stats.azurewebsites.net/${info.repo}/${info.path}" />`,
+        ""
+    ].join("\n");
+}
+
+/** The `assets/sample.json` entry the PnP sample browser lists the sample with. */
+export function renderSampleJson(info: ScaffoldInfo): string {
+    const account = info.author.gitHubAccount ?? "YourGitHubAccount";
+    const description = info.description ?? "Short summary on functionality and used technologies.";
+    const entry = {
+        name: `${NAME_PREFIXES[info.repo] ?? `${info.owner}-${info.repo}`}-${info.name}`,
+        source: "pnp",
+        title: info.title,
+        shortDescription: description,
+        url: sampleUrl(info, "tree"),
+        downloadUrl: `https://pnp.github.io/download-partial/?url=${sampleUrl(info, "tree")}`,
+        longDescription: [description],
+        creationDateTime: isoDate(info.date),
+        updateDateTime: isoDate(info.date),
+        products: ["SharePoint"],
+        metadata: [
+            { key: "CLIENT-SIDE-DEV", value: info.framework ?? "No framework" },
+            { key: "SPFX-VERSION", value: info.spfxVersion ?? "x.y.z" }
+        ],
+        thumbnails: [{ type: "image", order: 100, url: sampleUrl(info, "raw", "assets/screenshot.png"), alt: `${info.title} preview` }],
+        authors: [{ gitHubAccount: account, pictureUrl: `https://github.com/${account}.png`, name: info.author.name ?? account }],
+        references: [{
+            name: "Build your first SharePoint client-side web part",
+            description: "Client-side web parts are client-side components that run in the context of a SharePoint page. Client-side web parts can be deployed to SharePoint environments that support the SharePoint Framework. You can also use modern JavaScript web frameworks, tools, and libraries to build them.",
+            url: "https://learn.microsoft.com/sharepoint/dev/spfx/web-parts/get-started/build-a-hello-world-web-part"
+        }]
+    };
+    return JSON.stringify([entry], null, 2) + "\n";
+}
+
+/** The owner and repository of a GitHub clone URL (`https://github.com/o/r.git`, `git@github.com:o/r.git`). */
+export function parseRemoteRepo(url: string): { owner: string; repo: string } | null {
+    const m = /[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url.trim());
+    return m && !/^\.+$/.test(m[1]) ? { owner: m[1], repo: m[2] } : null;
+}
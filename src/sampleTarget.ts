@@ -0,0 +1,92 @@
+/**
+ * Where a sample lives: repository, ref and folder path. Samples are usually `samples/<name>` in the PnP
+ * repositories, but `--path` and GitHub URLs can point anywhere in a repository.
+ */
+
+/** Folder that holds the samples in the PnP sample repositories */
+export const DEFAULT_SAMPLES_PATH = "samples";
+
+export type SampleTarget = {
+    owner: string;
+    repo: string;
+    ref: string;
+    /** Repository folder that contains the sample ("" for the repository root) */
+    samplesPath: string;
+    /** The sample's own folder name (a single path segment) */
+    sampleFolder: string;
+};
+
+/**
+ * Normalize a repository folder path: forward slashes, no leading/trailing slashes, "." and "/" for the root ("").
+ */
+export function normalizeRepoPath(p: string): string {
+    const s = p.replaceAll("\\", "/").trim().replace(/^\.?\/+/, "").replace(/\/+$/, "");
+    return s === "." ? "" : s;
+}
+
+/**
+ * The repository path of a sample folder: `<samplesPath>/<sampleFolder>`, or just the folder at the root.
+ */
+export function samplePathOf(sampleFolder: string, samplesPath: string = DEFAULT_SAMPLES_PATH): string {
+    return samplesPath ? `${samplesPath}/${sampleFolder}` : sampleFolder;
+}
+
+/**
+ * Parse a GitHub web URL such as `https://github.com/<owner>/<repo>/tree/<ref>/<path>` (as copied from the browser).
+ *
+ * `blob` URLs point at a file; the file's folder is used. Branch names containing `/` cannot be told apart from the
+ * path, so the first segment after `tree/` is taken as the ref.
+ *
+ * @returns `null` when `input` is not a github.com URL.
+ */
+export function parseGitHubUrl(input: string): { owner: string; repo: string; ref?: string; path?: string } | null {
+    let url: URL;
+    try {
+        url = new URL(input.trim());
+    } catch {
+        return null;
+    }
+    if (!/^https?:$/.test(url.protocol) || !/^(www\.)?github\.com$/i.test(url.hostname)) return null;
+
+    const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    if (parts.length < 2) return null;
+    const [owner, rawRepo, kind, ref, ...rest] = parts;
+    const repo = rawRepo.replace(/\.git$/, "");
+    if (kind !== "tree" && kind !== "blob") return { owner, repo };
+    if (!ref) return { owner, repo };
+    const segments = kind === "blob" ? rest.slice(0, -1) : rest;
+    return { owner, repo, ref, path: segments.length ? segments.join("/") : undefined };
+}
+
+/**
+ * Resolve the `get` sample argument (a folder name, a repository path, or a GitHub URL) against the
+ * `--owner`/`--repo`/`--ref`/`--path` options. URLs override the owner, repo and ref options.
+ *
+ * @throws Error when a URL does not point to a folder inside the repository.
+ */
+export function resolveSampleTarget(arg: string, opts: { owner: string; repo: string; ref: string; path?: string }): SampleTarget {
+    let owner = opts.owner;
+    let repo = opts.repo;
+    let ref = opts.ref;
+    let full: string;
+
+    const url = parseGitHubUrl(arg);
+    if (url) {
+        if (!url.path) {
+            throw new Error(`The URL must point to a sample folder, e.g. https://github.com/${url.owner}/${url.repo}/tree/main/samples/<sample>`);
+        }
+        ({ owner, repo } = url);
+        ref = url.ref ?? ref;
+        full = normalizeRepoPath(url.path);
+    } else {
+        const samplesPath = normalizeRepoPath(opts.path ?? DEFAULT_SAMPLES_PATH);
+        let s = normalizeRepoPath(arg);
+        // allow either "react-my-sample" OR "samples/react-my-sample"
+        if (samplesPath && s.startsWith(`${samplesPath}/`)) s = s.slice(samplesPath.length + 1);
+        full = samplePathOf(s, samplesPath);
+    }
+
+    if (!full) throw new Error("Sample folder name is missing.");
+    const slash = full.lastIndexOf("/");
+    return { owner, repo, ref, samplesPath: slash < 0 ? "" : full.slice(0, slash), sampleFolder: full.slice(slash + 1) };
+}
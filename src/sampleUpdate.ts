@@ -0,0 +1,131 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { readBlobFile, writeBlobFile } from "./fileModes";
+import type { ManifestFile } from "./sampleManifest";
+
+/** What `update` did (or, with `dryRun`, would do) to each file of the sample, by path relative to the sample folder. */
+export type UpdateReport = {
+    /** Unchanged locally: replaced with the upstream version */
+    updated: string[];
+    /** New upstream */
+    added: string[];
+    /** Deleted upstream and unchanged locally */
+    removed: string[];
+    /** Changed on both sides and merged without conflicts */
+    merged: string[];
+    /** Changed on both sides with overlapping edits (conflict markers written), or changed on one side and deleted on the other */
+    conflicts: string[];
+};
+
+/** One side of the merge: a folder and the files listed for it in its manifest. */
+export type UpdateSide = { dir: string; files: ManifestFile[] };
+
+/** Labels for the conflict markers, e.g. "local", "base 1a2b3c4", "upstream main@5d6e7f8". */
+export type MergeLabels = { local: string; base: string; upstream: string };
+
+/**
+ * Three-way merge of file contents with `git merge-file`.
+ *
+ * @returns The merged content (with conflict markers) and the number of conflicts.
+ * @throws Error when git is not installed or the merge fails.
+ */
+export async function gitMergeFile(local: Uint8Array, base: Uint8Array, upstream: Uint8Array, labels: MergeLabels): Promise<{ content: Buffer; conflicts: number }> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "spfx-merge-"));
+    try {
+        const [l, b, u] = ["local", "base", "upstream"].map((n) => path.join(dir, n));
+        await Promise.all([fs.writeFile(l, local), fs.writeFile(b, base), fs.writeFile(u, upstream)]);
+        return await new Promise((resolve, reject) => {
+            const args = ["merge-file", "-p", "-L", labels.local, "-L", labels.base, "-L", labels.upstream, l, b, u];
+            execFile("git", args, { encoding: "buffer", maxBuffer: 64 * 1024 * 1024, windowsHide: true }, (err, stdout, stderr) => {
+                // the exit code is the number of conflicts; negative codes and signals are errors
+                const code = err?.code;
+                if (!err) resolve({ content: stdout, conflicts: 0 });
+                else if (typeof code === "number" && code > 0 && code < 128) resolve({ content: stdout, conflicts: code });
+                else if (code === "ENOENT") reject(new Error("update needs git to merge files, but git was not found on PATH."));
+                else reject(new Error(`git merge-file failed: ${stderr.toString().trim() || err.message}`));
+            });
+        });
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+    }
+}
+
+const hasCrlf = (b: Uint8Array) => Buffer.from(b).includes("\r\n");
+const toLf = (b: Uint8Array) => Buffer.from(Buffer.from(b).toString("latin1").replace(/\r\n/g, "\n"), "latin1");
+const toCrlf = (b: Uint8Array) => Buffer.from(Buffer.from(b).toString("latin1").replace(/\r?\n/g, "\r\n"), "latin1");
+const isBinary = (b: Uint8Array | null) => !!b && Buffer.from(b).includes(0);
+const same = (a: Uint8Array | null, b: Uint8Array | null) => a === null || b === null ? a === b : Buffer.from(a).equals(b);
+
+async function readOrNull(filePath: string): Promise<Buffer | null> {
+    try {
+        return await readBlobFile(filePath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Bring upstream changes into a customised sample folder: for every file of `base` (the version the folder was
+ * downloaded at) or `upstream` (the new version), compare the local copy with both.
+ *
+ * - changed upstream only: the upstream version replaces (or removes) the local file;
+ * - changed on both sides: the edits are merged with `mergeFile`, leaving standard conflict markers where they
+ *   overlap; a file changed on one side and deleted (or binary) on the other is kept as it is and reported;
+ * - changed locally only, and files that are only local: left alone.
+ *
+ * A local file checked out with CRLF line endings is compared and merged as LF and written back with CRLF.
+ * Both `base` and `upstream` should already have the folder's renames applied, so those do not conflict.
+ */
+export async function mergeSampleUpdate(opts: {
+    dir: string;
+    base: UpdateSide;
+    upstream: UpdateSide;
+    labels: MergeLabels;
+    dryRun?: boolean;
+    mergeFile?: typeof gitMergeFile;
+}): Promise<UpdateReport> {
+    const { dir, base, upstream, labels, dryRun } = opts;
+    const mergeFile = opts.mergeFile ?? gitMergeFile;
+    const report: UpdateReport = { updated: [], added: [], removed: [], merged: [], conflicts: [] };
+    const inBase = new Set(base.files.map((f) => f.path));
+    const modes = new Map(upstream.files.map((f) => [f.path, f.mode]));
+    const paths = [...new Set([...base.files, ...upstream.files].map((f) => f.path))].sort();
+
+    for (const p of paths) {
+        const target = path.join(dir, ...p.split("/"));
+        const b = inBase.has(p) ? await readOrNull(path.join(base.dir, ...p.split("/"))) : null;
+        const u = modes.has(p) ? await readOrNull(path.join(upstream.dir, ...p.split("/"))) : null;
+        const raw = await readOrNull(target);
+        // compare a CRLF checkout of LF files by its LF content
+        const crlf = !!raw && hasCrlf(raw) && !hasCrlf(b ?? u ?? Buffer.alloc(0));
+        const l = raw && crlf ? toLf(raw) : raw;
+        const write = async (bytes: Uint8Array, mode?: string) => {
+            if (dryRun) return;
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await writeBlobFile(target, crlf ? toCrlf(bytes) : bytes, mode);
+        };
+
+        if (same(b, u) || same(l, u)) continue; // no upstream change, or the local copy already has it
+        if (same(l, b)) {
+            if (u === null) {
+                if (!dryRun) await fs.rm(target, { force: true });
+                report.removed.push(p);
+            } else {
+                await write(u, modes.get(p));
+                (b === null ? report.added : report.updated).push(p);
+            }
+            continue;
+        }
+        // changed on both sides
+        if (l === null || u === null || isBinary(l) || isBinary(b) || isBinary(u)) {
+            report.conflicts.push(p);
+            continue;
+        }
+        const merged = await mergeFile(l, b ?? Buffer.alloc(0), u, labels);
+        await write(merged.content, modes.get(p));
+        (merged.conflicts > 0 ? report.conflicts : report.merged).push(p);
+    }
+    return report;
+}
@@ -0,0 +1,95 @@
+import type { TreeItem } from "./githubPartialSubtree";
+
+/**
+ * Git hosting services samples can be downloaded from. GitHub Enterprise Server is the `github` provider on
+ * another host; `local` reads a clone or mirror on disk (`--source`).
+ */
+export type ProviderName = "github" | "gitlab" | "azure" | "local";
+
+/** The services `--provider` accepts */
+export type HostedProviderName = Exclude<ProviderName, "local">;
+
+export const PROVIDER_NAMES: readonly HostedProviderName[] = ["github", "gitlab", "azure"];
+
+/**
+ * Per-call request settings shared by every provider request.
+ *
+ * @property token - Optional access token. When set, requests are authenticated (higher rate limits, private
+ *                   repositories).
+ */
+export type RequestContext = { signal?: AbortSignal; verbose?: boolean; token?: string };
+
+export type RepoRef = { owner: string; repo: string; ref: string };
+
+/**
+ * What the `get` command needs from a git host: a clone URL for the git method, folder listings with git object
+ * SHAs for the API method (blob SHAs are what downloads are verified and cached by), and file contents by path or
+ * by blob SHA.
+ *
+ * Folder and file paths are repository paths without leading slash ("" is the repository root).
+ */
+export type SourceProvider = {
+    readonly name: ProviderName;
+    /** Host name for messages and cache keys, e.g. "github.com" */
+    readonly host: string;
+    /** Environment variables read for a token when `--token` is not given, in order */
+    readonly tokenEnv: readonly string[];
+    /** URL for `git clone`; not set when the source cannot be cloned */
+    cloneUrl?(owner: string, repo: string): string;
+    /** The entries directly inside a folder; item paths are entry names */
+    listFolder(args: RepoRef & RequestContext & { path: string }): Promise<TreeItem[]>;
+    /** Every entry below a folder (`sha` is the folder's tree SHA from {@link listFolder}); item paths are relative to it */
+    listTree(args: RepoRef & RequestContext & { path: string; sha: string }): Promise<{ items: TreeItem[]; truncated?: boolean }>;
+    /** A file's contents at a ref, or `null` when there is no such file */
+    fetchFile(args: RepoRef & RequestContext & { path: string }): Promise<Uint8Array | null>;
+    /** A file's contents by blob SHA */
+    fetchBlob(args: { owner: string; repo: string; sha: string } & RequestContext): Promise<Uint8Array>;
+    /** URL of a gzipped tar archive of the ref (one top-level folder), when the host serves one */
+    tarballUrl?(owner: string, repo: string, ref: string, token?: string): string;
+    /** The commit SHA a branch, tag or (short) SHA points to */
+    resolveCommit(args: RepoRef & RequestContext): Promise<string>;
+    /** The newest commit at `ref` that touched `path` and was committed before `before`, or `null` when there is none */
+    lastCommitBefore(args: RepoRef & RequestContext & { path: string; before: Date }): Promise<string | null>;
+    /** When the newest commit at `ref` that touched `path` was made (ISO 8601), or `null` when there is none */
+    lastCommitDate?(args: RepoRef & RequestContext & { path: string }): Promise<string | null>;
+    /** The head commit of pull (merge) request `number` */
+    pullRequestHead(args: { owner: string; repo: string; number: number } & RequestContext): Promise<string>;
+    /** The git ref the host publishes a pull request's head under, for `git ls-remote` */
+    pullRef(number: number): string;
+    /** The user name a token belongs to (used to find the user's fork) */
+    currentUser?(ctx: RequestContext): Promise<string>;
+    /** A web page that starts a pull request from `branch` of `forkOwner`'s fork into `base` of `owner/repo` */
+    newPullRequestUrl?(args: { owner: string; repo: string; base: string; forkOwner: string; branch: string }): string;
+};
+
+export function assertProvider(p: string): HostedProviderName {
+    if ((PROVIDER_NAMES as readonly string[]).includes(p)) return p as HostedProviderName;
+    throw new Error(`Invalid --provider "${p}". Use ${PROVIDER_NAMES.join(", ")}.`);
+}
+
+/**
+ * The base URL of a host given as a bare host name (`git.contoso.com`, https assumed) or a URL
+ * (`http://localhost:8080`, `https://dev.azure.com`). Trailing slashes are removed.
+ */
+export function hostBaseUrl(host: string): string {
+    const h = host.trim().replace(/\/+$/, "");
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(h) ? h : `https://${h}`);
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+/**
+ * Build an error for a failed request to a non-GitHub host (bad credentials, private repos, rate limits).
+ */
+export function providerHttpError(label: string, res: Response, message: string | undefined, token: string | undefined, tokenEnv: readonly string[]): Error {
+    const detail = message ?? `${res.status} ${res.statusText}`;
+    if (res.status === 401 || (res.status === 403 && token)) {
+        return new Error(`${label} rejected the request (${res.status}): ${detail}. Check --token / ${tokenEnv.join(" / ")}.`);
+    }
+    if ((res.status === 401 || res.status === 403 || res.status === 404) && !token) {
+        return new Error(`${label} API error: ${detail}. If the repository is private, pass --token or set ${tokenEnv[0]}.`);
+    }
+    if (res.status === 429) {
+        return new Error(`${label} rate limit hit (${detail}). Try again later, or use the git method.`);
+    }
+    return new Error(`${label} API error: ${detail}`);
+}
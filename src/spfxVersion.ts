@@ -0,0 +1,114 @@
+export type SemVer = { major: number; minor: number; patch: number };
+
+export type SpfxVersionGuess = {
+    pkg: string;    // package the version was taken from, e.g. "@microsoft/sp-webpart-base"
+    ver: string;    // raw dependency range, e.g. "~1.18.2"
+    sem: SemVer;
+};
+
+export type SpfxMatrixEntry = { spfx: string; node?: string };
+
+// Prefer specific package keys when available because some samples include a broad "office-ui-fabric-react-bundle"
+// which may not reflect the core SPFx runtime version as accurately as `sp-webpart-base` or `sp-core-library`.
+const PREFERRED_PACKAGES = ["@microsoft/sp-webpart-base", "@microsoft/sp-core-library", "@microsoft/sp-module-interfaces"];
+
+/**
+ * Parse the first `major[.minor[.patch]]` out of a loose version/range string such as "~1.18.2" or "^1.4".
+ */
+export function parseSemverLoose(s: string | undefined): SemVer | null {
+    if (!s) return null;
+    const cleaned = s.trim().replace(/^[^0-9]*/, '').replace(/[^0-9.].*$/, '');
+    const parts = cleaned.split('.').map((p) => Number(p || 0));
+    if (parts.some((n) => Number.isNaN(n))) return null;
+    return { major: parts[0] || 0, minor: parts[1] || 0, patch: parts[2] || 0 };
+}
+
+function pickHighest(list: Array<{ pkg: string; ver: string }>): SpfxVersionGuess | null {
+    let b: SpfxVersionGuess | null = null;
+    for (const v of list) {
+        const sem = parseSemverLoose(v.ver);
+        if (!sem) continue;
+        if (!b) b = { pkg: v.pkg, ver: v.ver, sem };
+        else {
+            if (sem.major > b.sem.major || (sem.major === b.sem.major && (sem.minor > b.sem.minor || (sem.minor === b.sem.minor && sem.patch > b.sem.patch)))) {
+                b = { pkg: v.pkg, ver: v.ver, sem };
+            }
+        }
+    }
+    return b;
+}
+
+/**
+ * Infer the SharePoint Framework version of a project from the `@microsoft/sp-*` entries in its package.json.
+ *
+ * Picks the highest version among the preferred core packages, falling back to any `@microsoft/sp-*` package.
+ *
+ * @returns The best guess, or `null` when the package has no parseable SPFx dependency.
+ */
+export function detectSpfxVersion(pkg: any): SpfxVersionGuess | null {
+    if (!pkg || typeof pkg !== "object") return null;
+    const deps = { ...(pkg.dependencies || {}), ...(pkg.devDependencies || {}) };
+    const versions: Array<{ pkg: string; ver: string }> = [];
+    for (const p of Object.keys(deps).filter((k) => k.startsWith("@microsoft/sp-"))) {
+        const raw = deps[p];
+        if (typeof raw === "string") versions.push({ pkg: p, ver: raw });
+    }
+    if (versions.length === 0) return null;
+
+    const preferredCandidates = versions.filter((v) => PREFERRED_PACKAGES.includes(v.pkg));
+    return (preferredCandidates.length > 0 ? pickHighest(preferredCandidates) : null) ?? pickHighest(versions);
+}
+
+/**
+ * Normalize the SPFx compatibility matrix JSON (array or keyed object, several historical field names)
+ * into a flat list of `{ spfx, node }` entries.
+ */
+export function normalizeSpfxMatrix(matrix: any): SpfxMatrixEntry[] {
+    const entries: SpfxMatrixEntry[] = [];
+    if (Array.isArray(matrix)) {
+        for (const e of matrix) {
+            if (!e) continue;
+            const sp = e.spfx || e.spfxVersion || e.version;
+            const node = e.node || e.nodeVersion || (Array.isArray(e.nodeVersions) ? e.nodeVersions[0] : undefined) || e.recommendedNode;
+            if (sp) entries.push({ spfx: String(sp), node: node ? String(node) : undefined });
+        }
+    } else if (matrix && typeof matrix === 'object') {
+        for (const k of Object.keys(matrix)) {
+            const val = matrix[k];
+            if (val && typeof val === 'object') {
+                const node = val.node || val.nodeVersion || (Array.isArray(val.nodeVersions) ? val.nodeVersions[0] : undefined) || val.recommendedNode;
+                entries.push({ spfx: k, node: node ? String(node) : undefined });
+            } else if (typeof val === 'string') {
+                entries.push({ spfx: k, node: val });
+            }
+        }
+    }
+    return entries;
+}
+
+function semKey(s: string): SemVer | null {
+    const m = s.replace(/^[^0-9]*/, '').match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+    if (!m) return null;
+    return { major: Number(m[1]), minor: Number(m[2] || 0), patch: Number(m[3] || 0) };
+}
+
+/**
+ * Find the matrix entry for an SPFx version: an exact match when present, otherwise the closest by major/minor/patch.
+ */
+export function findSpfxMatrixEntry(entries: SpfxMatrixEntry[], version: SemVer): SpfxMatrixEntry | null {
+    let bestEntry: SpfxMatrixEntry | null = null;
+    let bestScore = Number.MAX_SAFE_INTEGER;
+    for (const e of entries) {
+        const sem = semKey(e.spfx);
+        if (!sem) continue;
+        if (sem.major === version.major && sem.minor === version.minor && sem.patch === version.patch) {
+            return e;
+        }
+        const score = Math.abs(sem.major - version.major) * 10000 + Math.abs(sem.minor - version.minor) * 100 + Math.abs(sem.patch - version.patch);
+        if (score < bestScore) {
+            bestScore = score;
+            bestEntry = e;
+        }
+    }
+    return bestEntry;
+}
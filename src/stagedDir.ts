@@ -0,0 +1,116 @@
+import fs from "node:fs/promises";
+import { renameSync, rmSync, existsSync } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+
+/**
+ * A temporary folder next to the destination that a download is written into, then swapped into place.
+ *
+ * Nothing touches the destination until {@link StagedDir.commit}: a failed or aborted download leaves the
+ * previous folder (if any) exactly as it was.
+ */
+export type StagedDir = {
+    /** Where to write; on the same volume as the destination so the final swap is a rename */
+    readonly dir: string;
+    readonly destDir: string;
+    /** Swap the staged folder into place; the previous destination is kept as a backup until the swap succeeded. */
+    commit(): Promise<void>;
+    /** Delete the staged folder (the destination is left untouched). */
+    rollback(): Promise<void>;
+    /** Stop tracking the staged folder without deleting it, so a later run can pick it up again. */
+    release(): void;
+};
+
+/**
+ * @property partial - Use a fixed folder name (`.<name>.spfx-partial`) that survives failures and Ctrl-C,
+ *                     so an interrupted download can be resumed.
+ * @property reuse - Keep what an earlier run left in the partial folder instead of starting empty.
+ */
+export type StagedDirOptions = { partial?: boolean; reuse?: boolean };
+
+type Pending = { dir: string; destDir: string; backup: string | null; keep: boolean };
+
+// staged folders that are neither committed nor rolled back yet, for cleanup on Ctrl-C
+const pending = new Set<Pending>();
+
+/** The folder a resumable download of `destDir` is written into. */
+export function partialDirFor(destDir: string): string {
+    const dest = path.resolve(destDir);
+    return path.join(path.dirname(dest), `.${path.basename(dest)}.spfx-partial`);
+}
+
+/**
+ * Create a staging folder for `destDir` (`.<name>.spfx-staging-<id>` in the same parent folder, or the
+ * partial folder from {@link partialDirFor} with `partial`).
+ */
+export async function createStagedDir(destDir: string, opts: StagedDirOptions = {}): Promise<StagedDir> {
+    const dest = path.resolve(destDir);
+    const parent = path.dirname(dest);
+    const id = randomUUID().slice(0, 8);
+    await fs.mkdir(parent, { recursive: true });
+
+    const dir = opts.partial ? partialDirFor(dest) : path.join(parent, `.${path.basename(dest)}.spfx-staging-${id}`);
+    const state: Pending = { dir, destDir: dest, backup: null, keep: !!opts.partial };
+    if (opts.partial && !opts.reuse) await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: opts.partial });
+    pending.add(state);
+
+    return {
+        dir: state.dir,
+        destDir: dest,
+        async commit() {
+            const backup = path.join(parent, `.${path.basename(dest)}.spfx-backup-${id}`);
+            let hadPrevious = true;
+            try {
+                await fs.rename(dest, backup);
+                state.backup = backup;
+            } catch (e) {
+                if (!(e instanceof Error && "code" in e && e.code === "ENOENT")) throw e;
+                hadPrevious = false;
+            }
+
+            try {
+                await fs.rename(state.dir, dest);
+            } catch (e) {
+                // put the previous folder back before reporting the failure
+                if (hadPrevious) await fs.rename(backup, dest).catch(() => undefined);
+                state.backup = null;
+                throw e;
+            }
+
+            pending.delete(state);
+            if (hadPrevious) await fs.rm(backup, { recursive: true, force: true }).catch(() => undefined);
+        },
+        async rollback() {
+            pending.delete(state);
+            await fs.rm(state.dir, { recursive: true, force: true }).catch(() => undefined);
+        },
+        release() {
+            pending.delete(state);
+        }
+    };
+}
+
+/**
+ * Synchronously undo every unfinished staged download: delete staging folders (partial folders are kept for
+ * `--resume`) and restore any backup that was moved aside but not yet replaced. Safe to call right before
+ * `process.exit()` in a SIGINT handler.
+ */
+export function abortStagedDirs(): void {
+    for (const state of pending) {
+        try {
+            if (state.backup && existsSync(state.backup) && !existsSync(state.destDir)) {
+                renameSync(state.backup, state.destDir);
+            }
+        } catch {
+            // leave the backup in place rather than lose it
+        }
+        if (state.keep) continue;
+        try {
+            rmSync(state.dir, { recursive: true, force: true });
+        } catch {
+            // ignore
+        }
+    }
+    pending.clear();
+}
@@ -0,0 +1,122 @@
+/**
+ * Thrown when a requested sample folder does not exist in the repository.
+ *
+ * Carries the closest existing sample names so callers can offer "Did you mean…?" hints,
+ * and `caseMatch` when the only difference is letter casing.
+ */
+export class SampleNotFoundError extends Error {
+    readonly sample: string;
+    readonly suggestions: string[];
+    readonly caseMatch?: string;
+
+    constructor(message: string, sample: string, available: string[]) {
+        const caseMatch = findCaseMismatch(sample, available);
+        const suggestions = caseMatch ? [caseMatch] : suggestSamples(sample, available);
+        super(message + formatSuggestions(suggestions, !!caseMatch));
+        this.name = "SampleNotFoundError";
+        this.sample = sample;
+        this.suggestions = suggestions;
+        this.caseMatch = caseMatch;
+    }
+}
+
+function formatSuggestions(suggestions: string[], caseOnly: boolean): string {
+    if (suggestions.length === 0) return "";
+    if (caseOnly) return `\nSample names are case-sensitive. Did you mean "${suggestions[0]}"?`;
+    return `\nDid you mean:\n${suggestions.map((s) => `  ${s}`).join("\n")}`;
+}
+
+/**
+ * Classic Levenshtein edit distance (insert/delete/substitute, each cost 1).
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const cur = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+        }
+        prev = cur;
+    }
+    return prev[b.length];
+}
+
+/**
+ * Split a sample name into lower-case word tokens ("react-helloWorld_v2" → ["react", "hello", "world", "v2"]).
+ */
+function tokenize(s: string): string[] {
+    return s
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+/**
+ * Jaccard overlap of two token lists, counting near-identical tokens (edit distance ≤ 1) as shared.
+ */
+function tokenOverlap(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    let shared = 0;
+    const remaining = [...b];
+    for (const t of a) {
+        const i = remaining.findIndex((u) => u === t || (t.length > 3 && editDistance(t, u) <= 1));
+        if (i >= 0) {
+            shared++;
+            remaining.splice(i, 1);
+        }
+    }
+    return shared / (a.length + b.length - shared);
+}
+
+/**
+ * Return the existing name that matches `input` ignoring case, when `input` itself does not exist.
+ */
+export function findCaseMismatch(input: string, names: string[]): string | undefined {
+    if (names.includes(input)) return undefined;
+    const lower = input.toLowerCase();
+    return names.find((n) => n.toLowerCase() === lower);
+}
+
+/**
+ * Rank existing sample names by similarity to a mistyped one.
+ *
+ * Combines normalized edit distance over the whole name (catches typos and missing dashes)
+ * with word-token overlap (catches reordered or partially remembered words). Names scoring below
+ * a minimum similarity are dropped, so an unrelated input yields no suggestions.
+ */
+export function suggestSamples(input: string, names: string[], max = 5): string[] {
+    const needle = input.trim().toLowerCase();
+    if (!needle) return [];
+    const needleTokens = tokenize(input);
+    const needleCompact = needleTokens.join("");
+
+    const scored: Array<{ name: string; score: number }> = [];
+    for (const name of names) {
+        const lower = name.toLowerCase();
+        const tokens = tokenize(name);
+        const compact = tokens.join("");
+
+        // Same letters once separators are ignored ("react-helloworld" vs "react-hello-world") is as close as it gets
+        if (compact === needleCompact) {
+            scored.push({ name, score: 2 });
+            continue;
+        }
+
+        const similarity = Math.max(
+            1 - editDistance(needle, lower) / Math.max(needle.length, lower.length),
+            1 - editDistance(needleCompact, compact) / Math.max(needleCompact.length, compact.length, 1)
+        );
+        let score = 0.7 * similarity + 0.3 * tokenOverlap(needleTokens, tokens);
+        if (lower.includes(needle) || needle.includes(lower)) score += 0.1;
+        if (score >= 0.45) scored.push({ name, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return scored.slice(0, max).map((s) => s.name);
+}
@@ -0,0 +1,190 @@
+const BLOCK = 512;
+
+export type TarEntryType = "file" | "directory" | "symlink" | "hardlink" | "other";
+
+export type TarEntry = {
+    path: string;
+    type: TarEntryType;
+    size: number;
+    mode: number;
+    /** Link target for symlinks and hard links */
+    linkname: string;
+};
+
+/** Receives an entry's bytes in order; `end` is called once all of them were written. */
+export type TarEntrySink = {
+    write(chunk: Buffer): Promise<unknown> | unknown;
+    end(): Promise<unknown> | unknown;
+};
+
+function readString(buf: Buffer, start: number, len: number): string {
+    const nul = buf.indexOf(0, start);
+    const end = nul < 0 || nul > start + len ? start + len : nul;
+    return buf.toString("utf8", start, end);
+}
+
+function readNumber(buf: Buffer, start: number, len: number): number {
+    // GNU base-256 encoding for values that do not fit the octal field
+    if (buf[start] & 0x80) {
+        let v = buf[start] & 0x7f;
+        for (let i = start + 1; i < start + len; i++) v = v * 256 + buf[i];
+        return v;
+    }
+    const s = readString(buf, start, len).trim();
+    return s ? parseInt(s, 8) : 0;
+}
+
+function checksumMatches(header: Buffer): boolean {
+    let sum = 0;
+    for (let i = 0; i < BLOCK; i++) sum += i >= 148 && i < 156 ? 32 : header[i];
+    return sum === readNumber(header, 148, 8);
+}
+
+/**
+ * Parse pax extended header records ("<len> <key>=<value>\n").
+ */
+function parsePax(data: Buffer): Record<string, string> {
+    const out: Record<string, string> = {};
+    let pos = 0;
+    while (pos < data.length) {
+        const space = data.indexOf(0x20, pos);
+        if (space < 0) break;
+        const len = parseInt(data.toString("utf8", pos, space), 10);
+        if (!len) break;
+        const record = data.toString("utf8", space + 1, pos + len - 1);
+        const eq = record.indexOf("=");
+        if (eq > 0) out[record.slice(0, eq)] = record.slice(eq + 1);
+        pos += len;
+    }
+    return out;
+}
+
+function entryType(flag: string): TarEntryType {
+    switch (flag) {
+        case "0": case "\0": case "7": case "": return "file";
+        case "5": return "directory";
+        case "2": return "symlink";
+        case "1": return "hardlink";
+        default: return "other";
+    }
+}
+
+/**
+ * Stream-parse an uncompressed tar archive (ustar, pax and GNU long names).
+ *
+ * Only the current header and chunk are held in memory. For every entry `onEntry` decides what happens
+ * to its data: return a sink to receive the bytes, `null` to skip them, or `false` to stop reading the
+ * archive altogether (the remaining input is not consumed).
+ *
+ * @throws Error when a header checksum does not match or the input ends in the middle of an entry.
+ */
+export async function readTar(
+    source: AsyncIterable<Uint8Array>,
+    onEntry: (entry: TarEntry) => Promise<TarEntrySink | null | false> | TarEntrySink | null | false
+): Promise<void> {
+    let buf: Buffer = Buffer.alloc(0);
+    let state = "header" as "header" | "data" | "padding" | "done";
+    let remaining = 0;
+    let padding = 0;
+    let sink: TarEntrySink | null = null;
+
+    // data of a pax / GNU long-name header, applied to the next entry
+    let meta: { kind: "pax" | "longname" | "longlink" | "global"; chunks: Buffer[] } | null = null;
+    let overrides: { path?: string; linkname?: string; size?: number } = {};
+
+    const finishEntry = async () => {
+        if (meta) {
+            const data = Buffer.concat(meta.chunks);
+            if (meta.kind === "pax") {
+                const pax = parsePax(data);
+                overrides = { ...overrides, path: pax.path ?? overrides.path, linkname: pax.linkpath ?? overrides.linkname, size: pax.size ? Number(pax.size) : overrides.size };
+            } else if (meta.kind === "longname") {
+                overrides.path = readString(data, 0, data.length);
+            } else if (meta.kind === "longlink") {
+                overrides.linkname = readString(data, 0, data.length);
+            }
+            meta = null;
+        } else if (sink) {
+            await sink.end();
+            sink = null;
+        }
+    };
+
+    for await (const chunk of source) {
+        buf = buf.length ? Buffer.concat([buf, chunk]) : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+
+        for (;;) {
+            if (state === "done") return;
+
+            if (state === "header") {
+                if (buf.length < BLOCK) break;
+                const header = buf.subarray(0, BLOCK);
+                buf = buf.subarray(BLOCK);
+
+                if (header.every((b) => b === 0)) {
+                    state = "done";
+                    continue;
+                }
+                if (!checksumMatches(header)) throw new Error("Invalid tar header (checksum mismatch)");
+
+                const flag = String.fromCharCode(header[156]);
+                let size = readNumber(header, 124, 12);
+                remaining = size;
+
+                if (flag === "x" || flag === "g" || flag === "L" || flag === "K") {
+                    meta = { kind: flag === "x" ? "pax" : flag === "g" ? "global" : flag === "L" ? "longname" : "longlink", chunks: [] };
+                } else {
+                    const name = readString(header, 0, 100);
+                    const prefix = readString(header, 257, 6).startsWith("ustar") ? readString(header, 345, 155) : "";
+                    if (overrides.size !== undefined) size = remaining = overrides.size;
+                    const entry: TarEntry = {
+                        path: overrides.path ?? (prefix ? `${prefix}/${name}` : name),
+                        type: entryType(flag),
+                        size,
+                        mode: readNumber(header, 100, 8),
+                        linkname: overrides.linkname ?? readString(header, 157, 100)
+                    };
+                    overrides = {};
+
+                    const result = await onEntry(entry);
+                    if (result === false) return;
+                    sink = result;
+                }
+
+                padding = (BLOCK - (size % BLOCK)) % BLOCK;
+                state = "data";
+                if (remaining === 0) {
+                    await finishEntry();
+                    state = "padding";
+                }
+                continue;
+            }
+
+            if (state === "data") {
+                if (buf.length === 0) break;
+                const n = Math.min(remaining, buf.length);
+                const part = buf.subarray(0, n);
+                buf = buf.subarray(n);
+                remaining -= n;
+                if (meta) meta.chunks.push(Buffer.from(part));
+                else if (sink) await sink.write(part);
+                if (remaining === 0) {
+                    await finishEntry();
+                    state = "padding";
+                }
+                continue;
+            }
+
+            // padding
+            const n = Math.min(padding, buf.length);
+            buf = buf.subarray(n);
+            padding -= n;
+            if (padding > 0) break;
+            state = "header";
+        }
+    }
+
+    if (state === "data" || (state === "padding" && padding > 0) || (state === "header" && buf.length > 0)) {
+        throw new Error("Unexpected end of tar archive");
+    }
+}
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import { listCommandHandler, resolveGitHubToken } from '../dist/cli.js';
+
+const noGh = () => null;
+
+test('resolveGitHubToken prefers --token, then GITHUB_TOKEN, GH_TOKEN and gh', () => {
+  const env = { GITHUB_TOKEN: 'env-github', GH_TOKEN: 'env-gh' };
+  assert.deepEqual(resolveGitHubToken({ token: 'flag', env, readGhToken: noGh }), { token: 'flag', source: '--token' });
+  assert.deepEqual(resolveGitHubToken({ env, readGhToken: noGh }), { token: 'env-github', source: 'GITHUB_TOKEN' });
+  assert.deepEqual(resolveGitHubToken({ env: { GH_TOKEN: 'env-gh' }, readGhToken: noGh }), { token: 'env-gh', source: 'GH_TOKEN' });
+  assert.deepEqual(resolveGitHubToken({ env: {}, readGhToken: () => 'from-gh' }), { token: 'from-gh', source: 'gh auth token' });
+  assert.equal(resolveGitHubToken({ env: { GITHUB_TOKEN: '  ' }, readGhToken: noGh }), null);
+});
+
+test('resolveGitHubToken never prints the token in verbose mode', () => {
+  const lines = [];
+  const orig = console.error;
+  console.error = (...a) => lines.push(a.join(' '));
+  try {
+    resolveGitHubToken({ token: 'secret-value', verbose: true, env: {}, readGhToken: noGh });
+  } finally {
+    console.error = orig;
+  }
+  assert.match(lines.join('\n'), /token from --token/);
+  assert.doesNotMatch(lines.join('\n'), /secret-value/);
+});
+
+test('API listing sends the token and reports authenticated rate limits', async (t) => {
+  const seen = [];
+  const reset = Math.floor(Date.now() / 1000) + 600;
+  t.mock.method(globalThis, 'fetch', async (url, init) => {
+    seen.push(init.headers.Authorization);
+    return new Response(JSON.stringify({ message: 'API rate limit exceeded' }), {
+      status: 403,
+      headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Limit': '5000', 'X-RateLimit-Reset': String(reset) }
+    });
+  });
+
+  await assert.rejects(
+    listCommandHandler({ ref: 'main', method: 'api', token: 'abc' }, { resolveToken: (o) => ({ token: o.token, source: '--token' }) }),
+    /rate limit hit \(5000\/hr for your token\)\. Resets at/
+  );
+  assert.deepEqual(seen, ['Bearer abc']);
+});
+
+test('anonymous rate-limit error suggests a token', async (t) => {
+  t.mock.method(globalThis, 'fetch', async () => new Response('{}', {
+    status: 403,
+    headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Limit': '60' }
+  }));
+
+  await assert.rejects(
+    listCommandHandler({ ref: 'main', method: 'api' }, { resolveToken: () => null }),
+    /anonymous rate limit hit \(60\/hr per IP\)\. Set GITHUB_TOKEN/
+  );
+});
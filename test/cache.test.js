@@ -0,0 +1,94 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { cacheCommandHandler, getCommandHandler, gitBlobSha, parseAge, writeCachedBlob } from '../dist/cli.js';
+
+const SHA_PKG = gitBlobSha(Buffer.from('{"name":"hello"}\n'));
+const SHA_INDEX = gitBlobSha(Buffer.from('export {};\n'));
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+
+/** Stand-in for the GitHub tree API and raw.githubusercontent.com; records every URL requested. */
+function fakeGitHub(t) {
+  const requests = [];
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    requests.push(url);
+    if (url.endsWith('/commits/main')) return json({ sha: COMMIT });
+    if (url.endsWith(`/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'samples', type: 'tree', sha: 'samples-sha' }] });
+    if (url.endsWith('/git/trees/samples-sha')) return json({ tree: [{ path: 'react-hello-world', type: 'tree', sha: 'sample-sha' }] });
+    if (url.endsWith('/git/trees/sample-sha?recursive=1')) {
+      return json({ tree: [
+        { path: 'package.json', type: 'blob', sha: SHA_PKG, size: 17 },
+        { path: 'src', type: 'tree', sha: 'src-sha' },
+        { path: 'src/index.ts', type: 'blob', sha: SHA_INDEX, size: 11 }
+      ] });
+    }
+    if (url.endsWith('/package.json')) return new Response('{"name":"hello"}\n');
+    if (url.endsWith('/src/index.ts')) return new Response('export {};\n');
+    return new Response('', { status: 404 });
+  });
+  return requests;
+}
+
+const noop = { postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null };
+
+test('repeated API gets only request the tree listing; --offline requests nothing', async (t) => {
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-cache-'));
+  const requests = fakeGitHub(t);
+  const dest = (n) => path.join(cacheDir, '..', `${path.basename(cacheDir)}-dest${n}`);
+
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest: dest(1) }, { ...noop, cacheDir });
+  assert.equal(requests.filter((u) => u.includes('raw.githubusercontent.com')).length, 2);
+
+  requests.length = 0;
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest: dest(2) }, { ...noop, cacheDir });
+  assert.ok(requests.length > 0);
+  assert.ok(requests.every((u) => u.startsWith('https://api.github.com/')), 'only tree requests');
+  assert.equal(await fs.readFile(path.join(dest(2), 'src', 'index.ts'), 'utf8'), 'export {};\n');
+
+  requests.length = 0;
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'auto', offline: true, dest: dest(3) }, {
+    ...noop, cacheDir, isGitAvailable: async () => assert.fail('offline should not probe git')
+  });
+  assert.deepEqual(requests, []);
+  assert.equal(await fs.readFile(path.join(dest(3), 'package.json'), 'utf8'), '{"name":"hello"}\n');
+});
+
+test('--offline fails clearly for samples that were never fetched', async () => {
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-cache-'));
+  await assert.rejects(
+    getCommandHandler('react-other', { ref: 'main', offline: true, dest: path.join(cacheDir, 'out') }, { ...noop, cacheDir }),
+    /not in the local cache/
+  );
+  await assert.rejects(
+    getCommandHandler('react-other', { ref: 'main', offline: true, method: 'git', dest: path.join(cacheDir, 'out') }, { ...noop, cacheDir }),
+    /--offline.*cannot be used/
+  );
+});
+
+test('cache command reports, prunes by age and clears', async () => {
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-cache-'));
+  await writeCachedBlob(cacheDir, SHA_PKG, Buffer.from('12345'));
+  await writeCachedBlob(cacheDir, SHA_INDEX, Buffer.from('123'));
+  const old = new Date(Date.now() - 40 * 86_400_000);
+  await fs.utimes(path.join(cacheDir, 'blobs', SHA_PKG.slice(0, 2), SHA_PKG), old, old);
+
+  const info = await cacheCommandHandler('info', {}, { cacheDir });
+  assert.deepEqual({ blobs: info.blobs, bytes: info.bytes }, { blobs: 2, bytes: 8 });
+
+  const pruned = await cacheCommandHandler('prune', { olderThan: '30d' }, { cacheDir });
+  assert.equal(pruned.blobs, 1);
+  assert.equal((await cacheCommandHandler('info', {}, { cacheDir })).blobs, 1);
+
+  await cacheCommandHandler('clear', {}, { cacheDir });
+  assert.equal((await cacheCommandHandler('info', {}, { cacheDir })).blobs, 0);
+});
+
+test('parseAge accepts minutes, hours, days and weeks', () => {
+  assert.equal(parseAge('--older-than', '45m'), 45 * 60_000);
+  assert.equal(parseAge('--older-than', '2w'), 14 * 86_400_000);
+  assert.throws(() => parseAge('--older-than', '30'), /must look like/);
+});
@@ -0,0 +1,88 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { diffCommandHandler, getCommandHandler } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-diff-'));
+const quiet = { finalize: async () => {}, resolveToken: () => null };
+const lines = (...l) => l.join('\n') + '\n';
+
+/** An upstream repo (used as --source) with samples/hello; returns it and a function that commits more files. */
+async function upstreamRepo() {
+  const repo = await tmpDir();
+  const git = (...a) => execFileSync('git', ['-C', repo, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a]).toString().trim();
+  const commit = async (files) => {
+    for (const [f, content] of Object.entries(files)) {
+      const file = path.join(repo, 'samples', 'hello', f);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content);
+    }
+    git('add', '-A');
+    git('commit', '-q', '-m', 'change');
+    return git('rev-parse', 'HEAD');
+  };
+  git('init', '-q', '-b', 'main');
+  const base = await commit({
+    'package.json': lines('{', '  "name": "hello",', '  "version": "1.0.0"', '}'),
+    'README.md': lines('# hello', '', 'npm install'),
+    'src/index.ts': lines('export const a = 1;'),
+    '.gitignore': lines('node_modules', 'lib', 'temp', '*.local.ts')
+  });
+  return { repo, commit, base };
+}
+
+test('diff shows local changes against the sample, without renames, installs, build output and ignored files', async () => {
+  const { repo, commit, base } = await upstreamRepo();
+  const dest = path.join(await tmpDir(), 'my-app');
+  await getCommandHandler('hello', { ref: 'main', source: repo, method: 'api', rename: 'my-app', dest }, { ...quiet, cacheDir: await tmpDir() });
+
+  let r = await diffCommandHandler(dest, {}, { ...quiet, cacheDir: await tmpDir() });
+  assert.deepEqual([r.files, r.text, r.label], [[], '', `main@${base.slice(0, 7)}`]);
+
+  await fs.writeFile(path.join(dest, 'src', 'index.ts'), lines('export const a = 2;'));
+  await fs.writeFile(path.join(dest, 'src', 'settings.local.ts'), 'ignored by .gitignore\n');
+  await fs.writeFile(path.join(dest, 'src', 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 0xff]));
+  await fs.writeFile(path.join(dest, 'README.md'), lines('# my-app', '', 'npm install').replace(/\n/g, '\r\n'));
+  for (const d of ['node_modules/x', 'lib', 'temp', 'dist', 'release', 'sharepoint/solution', 'src/node_modules', '.pnpm-store/v3']) {
+    await fs.mkdir(path.join(dest, d), { recursive: true });
+    await fs.writeFile(path.join(dest, d, 'file.js'), 'x\n');
+  }
+  // upstream moving on does not show: the comparison is with the commit the copy was made from
+  await commit({ 'src/index.ts': lines('export const a = 3;') });
+
+  r = await diffCommandHandler(dest, {}, { ...quiet, cacheDir: await tmpDir() });
+  assert.deepEqual(r.files, ['src/index.ts', 'src/logo.png']);
+  // main has moved on, so the label names the commit compared with
+  assert.deepEqual([r.label, r.commit], [`main@${base.slice(0, 7)}`, base]);
+  assert.match(r.text, /--- a\/src\/index\.ts\n\+\+\+ b\/src\/index\.ts\n@@ .* @@\n-export const a = 1;\n\+export const a = 2;\n/);
+  assert.match(r.text, /new file mode 100644/);
+  assert.match(r.text, /Binary files \/dev\/null and b\/src\/logo\.png differ/);
+
+  const output = path.join(await tmpDir(), 'changes.patch');
+  r = await diffCommandHandler(dest, { stat: true, output }, { ...quiet, cacheDir: await tmpDir() });
+  assert.match(r.text, /src\/index\.ts\s+\|\s+2 \+-/);
+  assert.match(r.text, /2 files changed/);
+  const patch = await fs.readFile(output, 'utf8');
+  assert.match(patch, /^diff --git a\/src\/index\.ts b\/src\/index\.ts/);
+  assert.match(patch, /GIT binary patch/);
+
+  // the patch replays the changes, binary files included, on a fresh copy
+  const fresh = path.join(await tmpDir(), 'my-app');
+  await getCommandHandler('hello', { ref: r.commit, source: repo, method: 'api', rename: 'my-app', dest: fresh }, { ...quiet, cacheDir: await tmpDir() });
+  execFileSync('git', ['apply', output], { cwd: fresh });
+  assert.deepEqual(await fs.readFile(path.join(fresh, 'src', 'logo.png')), await fs.readFile(path.join(dest, 'src', 'logo.png')));
+
+  r = await diffCommandHandler(dest, { nameOnly: true, ref: 'main' }, { ...quiet, cacheDir: await tmpDir() });
+  assert.equal(r.text, 'src/index.ts\nsrc/logo.png\n');
+  assert.equal(r.label, 'main');
+});
+
+test('diff needs a manifest and one output format', async () => {
+  const dir = await tmpDir();
+  await assert.rejects(diffCommandHandler(dir, {}), /No \.spfx-sample\.json in .* can be compared/);
+  await fs.writeFile(path.join(dir, '.spfx-sample.json'), JSON.stringify({ owner: 'pnp', repo: 'r', ref: 'main', sample: 's', files: [] }));
+  await assert.rejects(diffCommandHandler(dir, { stat: true, nameOnly: true }), /--stat.*--name-only/);
+});
@@ -0,0 +1,93 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { contributeHints, getCommandHandler, isForkLocation, resolveForkRemote, resolveProvider } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-fork-'));
+const git = (dir, ...a) => execFileSync('git', ['-C', dir, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a]).toString().trim();
+
+/** The sample repository and a fork of it, both bare repositories standing in for GitHub. */
+async function upstreamAndFork() {
+  const root = await tmpDir();
+  const work = path.join(root, 'work');
+  await fs.mkdir(path.join(work, 'samples', 'hello'), { recursive: true });
+  await fs.mkdir(path.join(work, 'samples', 'other'), { recursive: true });
+  await fs.writeFile(path.join(work, 'samples', 'hello', 'README.md'), '# hello\n');
+  await fs.writeFile(path.join(work, 'samples', 'other', 'README.md'), '# other\n');
+  git(work, 'init', '-q', '-b', 'main');
+  git(work, 'add', '-A');
+  git(work, 'commit', '-q', '-m', 'initial');
+  const upstream = path.join(root, 'upstream.git');
+  const fork = path.join(root, 'fork.git');
+  execFileSync('git', ['clone', '-q', '--bare', work, upstream]);
+  execFileSync('git', ['clone', '-q', '--bare', upstream, fork]);
+  return { root, upstream, fork, commit: git(work, 'rev-parse', 'HEAD') };
+}
+
+test('--fork makes origin the fork, upstream the sample repo, and starts a branch to push', async () => {
+  const { root, upstream, fork, commit } = await upstreamAndFork();
+  const dest = path.join(root, 'contrib');
+  let finalized;
+  await getCommandHandler('hello', { ref: 'main', source: upstream, method: 'git', mode: 'repo', fork, dest }, {
+    postProcess: async () => {}, finalize: async (o) => { finalized = o; }, resolveToken: () => null
+  });
+
+  assert.equal(git(dest, 'remote', 'get-url', 'origin'), fork);
+  assert.match(git(dest, 'remote', 'get-url', 'upstream'), /upstream\.git$/);
+  assert.equal(git(dest, 'branch', '--show-current'), 'hello-update');
+  assert.equal(git(dest, 'rev-parse', 'HEAD'), commit);
+  assert.deepEqual(finalized.contribute, { branch: 'hello-update', push: 'git push -u origin hello-update' });
+  assert.match(finalized.successMessage, /on branch .*hello-update/);
+
+  // the printed push command works from the sparse, shallow clone
+  await fs.appendFile(path.join(dest, 'samples', 'hello', 'README.md'), 'More.\n');
+  git(dest, 'commit', '-q', '-am', 'Improve hello');
+  git(dest, 'push', '-q', '-u', 'origin', 'hello-update');
+  assert.equal(git(fork, 'log', '-1', '--format=%s', 'hello-update'), 'Improve hello');
+  assert.notEqual(git(upstream, 'rev-parse', 'main'), git(fork, 'rev-parse', 'hello-update'));
+});
+
+test('--branch without --fork, and the checks made before cloning', async () => {
+  const { root, upstream } = await upstreamAndFork();
+  const deps = { postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null };
+  const dest = path.join(root, 'contrib');
+  await getCommandHandler('hello', { ref: 'main', source: upstream, method: 'git', mode: 'repo', branch: 'fix/readme', dest }, deps);
+  assert.equal(git(dest, 'branch', '--show-current'), 'fix/readme');
+  assert.match(git(dest, 'remote', 'get-url', 'origin'), /upstream\.git$/);
+
+  const repoMode = { ref: 'main', source: upstream, method: 'git', mode: 'repo', dest: path.join(root, 'x') };
+  await assert.rejects(getCommandHandler('hello', { ...repoMode, fork: path.join(root, 'missing.git') }, deps), /No fork of .* at .*missing\.git/);
+  await assert.rejects(getCommandHandler('hello', { ...repoMode, fork: 'octocat' }, deps), /--source, --fork takes the fork's clone URL or path/);
+  await assert.rejects(getCommandHandler('hello', { ...repoMode, branch: 'bad..name' }, deps), /Invalid --branch name "bad\.\.name"/);
+  await assert.rejects(getCommandHandler('hello', { ref: 'main', source: upstream, fork: true }, deps), /--fork only works with --mode repo/);
+  await assert.rejects(fs.access(path.join(root, 'x')));
+});
+
+test('--fork finds the fork of the signed-in user and prints pull request commands', async (t) => {
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    assert.equal(String(url), 'https://api.github.com/user');
+    return new Response(JSON.stringify({ login: 'octocat' }), { status: 200 });
+  });
+  const github = resolveProvider({});
+  const fork = await resolveForkRemote({ provider: github, repo: 'sp-dev-fx-webparts', fork: true, token: 't' });
+  assert.deepEqual(fork, { url: 'https://github.com/octocat/sp-dev-fx-webparts.git', owner: 'octocat' });
+  await assert.rejects(resolveForkRemote({ provider: github, repo: 'r', fork: true }), /pass --fork <user>, or sign in/);
+
+  assert.deepEqual(contributeHints({ provider: github, owner: 'pnp', repo: 'sp-dev-fx-webparts', base: 'main', branch: 'hello-update', fork }), {
+    branch: 'hello-update',
+    push: 'git push -u origin hello-update',
+    pullRequest: 'gh pr create --repo pnp/sp-dev-fx-webparts --base main --head octocat:hello-update',
+    pullRequestUrl: 'https://github.com/pnp/sp-dev-fx-webparts/compare/main...octocat:hello-update?expand=1'
+  });
+  const gitlab = resolveProvider({ host: 'gitlab.com' });
+  assert.equal(
+    contributeHints({ provider: gitlab, owner: 'pnp', repo: 'samples', base: 'main', branch: 'b', fork: { url: 'x', owner: 'me' } }).pullRequestUrl,
+    'https://gitlab.com/me/samples/-/merge_requests/new?merge_request%5Bsource_branch%5D=b&merge_request%5Btarget_branch%5D=main'
+  );
+
+  for (const v of ['https://github.com/me/r.git', 'git@github.com:me/r.git', './fork.git', '/srv/fork', 'C:\\forks\\r']) assert.ok(isForkLocation(v), v);
+  for (const v of ['octocat', 'group/subgroup']) assert.ok(!isForkLocation(v), v);
+});
@@ -0,0 +1,84 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { getManyCommandHandler, gitBlobSha, readSampleList, SampleNotFoundError } from '../dist/cli.js';
+
+const PKG = '{"name":"x"}\n';
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+const noop = { postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null };
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-many-'));
+
+test('API gets of several samples share one samples listing and report failures per sample', async (t) => {
+  const requests = [];
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    requests.push(url);
+    if (url.endsWith('/commits/main')) return json({ sha: COMMIT });
+    if (url.endsWith(`/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'samples', type: 'tree', sha: 'samples-sha' }] });
+    if (url.endsWith('/git/trees/samples-sha')) {
+      return json({ tree: [{ path: 'react-a', type: 'tree', sha: 'a-sha' }, { path: 'react-b', type: 'tree', sha: 'b-sha' }] });
+    }
+    if (/\/git\/trees\/[ab]-sha\?recursive=1$/.test(url)) {
+      return json({ tree: [{ path: 'package.json', mode: '100644', type: 'blob', sha: gitBlobSha(Buffer.from(PKG)), size: PKG.length }] });
+    }
+    if (url.endsWith('/package.json')) return new Response(PKG);
+    return new Response('', { status: 404 });
+  });
+
+  const root = await tmpDir();
+  const results = await getManyCommandHandler(['react-a', 'samples/react-b', 'react-c', 'react-a'], { ref: 'main', method: 'api', dest: root }, { ...noop, cacheDir: await tmpDir() });
+
+  assert.deepEqual(results.map((r) => [r.sample, !r.error]), [['react-a', true], ['react-b', true], ['react-c', false]]);
+  assert.ok(results[2].error instanceof SampleNotFoundError);
+  // the ref is resolved once and every sample comes from that commit
+  assert.equal(requests.filter((u) => u.endsWith('/commits/main')).length, 1);
+  assert.equal(requests.filter((u) => u.endsWith(`/git/trees/${COMMIT}`)).length, 1);
+  assert.equal(requests.filter((u) => u.endsWith('/git/trees/samples-sha')).length, 1);
+  assert.equal(await fs.readFile(path.join(root, 'react-b', 'package.json'), 'utf8'), PKG);
+});
+
+test('git gets of several samples use a single sparse clone', async () => {
+  const root = await tmpDir();
+  const calls = [];
+  // stands in for the blobless clone: a local repo with the requested samples checked out
+  const sparseCloneSamples = async (args) => {
+    calls.push([args.ref, ...args.sampleFolders]);
+    const git = (...a) => execFileSync('git', ['-C', args.repoDir, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a], { stdio: 'ignore' });
+    await fs.mkdir(args.repoDir, { recursive: true });
+    git('init', '-q');
+    for (const s of ['react-a', 'react-b']) {
+      await fs.mkdir(path.join(args.repoDir, 'samples', s), { recursive: true });
+      await fs.writeFile(path.join(args.repoDir, 'samples', s, 'package.json'), PKG);
+    }
+    git('add', '.');
+    git('commit', '-q', '-m', 'samples');
+  };
+
+  const results = await getManyCommandHandler(['react-a', 'react-b', 'react-x'], { method: 'git', dest: root }, {
+    ...noop, sparseCloneSamples, ensureGit: async () => {}, isGitAvailable: async () => true,
+    lsRemote: async () => new Map([['refs/heads/main', COMMIT]])
+  });
+
+  assert.deepEqual(calls, [[COMMIT, 'react-a', 'react-b', 'react-x']]);
+  assert.deepEqual(results.map((r) => !r.error), [true, true, false]);
+  assert.match(results[2].error.message, /samples\/react-x/);
+  const manifest = JSON.parse(await fs.readFile(path.join(root, 'react-a', '.spfx-sample.json'), 'utf8'));
+  assert.deepEqual(manifest.files.map((f) => f.sha), [gitBlobSha(Buffer.from(PKG))]);
+  assert.equal(manifest.commit, COMMIT);
+});
+
+test('options that only fit one sample are rejected', async () => {
+  await assert.rejects(getManyCommandHandler(['a', 'b'], { rename: 'x' }, noop), /--rename.*single sample/);
+  await assert.rejects(getManyCommandHandler(['a', 'b'], { newid: '8f2a7c1e-0b5d-4a3e-9c2f-1d4e5f6a7b8c' }, noop), /--newid/);
+  await assert.rejects(getManyCommandHandler(['a', 'b'], { mode: 'repo' }, noop), /--mode.*single sample/);
+});
+
+test('readSampleList skips blank lines and comments', async () => {
+  const file = path.join(await tmpDir(), 'list.txt');
+  await fs.writeFile(file, '# workshop\nreact-a\r\n\n  react-b  # day 2\n');
+  assert.deepEqual(await readSampleList(file), ['react-a', 'react-b']);
+});
@@ -3,13 +3,16 @@ import { strict as assert } from 'node:assert';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
-import { getCommandHandler } from '../dist/cli.js';
+import { abortStagedDirs, createStagedDir, getCommandHandler } from '../dist/cli.js';
+
+// the ref is already pinned, so these tests make no request
+const resolved = { sha: 'a'.repeat(40), ref: 'main', label: 'main' };
 
 async function mkTmpDir() {
   return await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-get-'));
 }
 
-test('getCommandHandler uses API download when git unavailable', async () => {
+test('getCommandHandler uses tarball download when git unavailable', async () => {
   const tmp = await mkTmpDir();
   let downloaded = false;
   const fakeDownload = async (opts) => {
@@ -18,8 +21,10 @@ test('getCommandHandler uses API download when git unavailable', async () => {
     await fs.writeFile(path.join(opts.destDir, 'package.json'), JSON.stringify({ name: 'downloaded' }, null, 2));
   };
   await getCommandHandler('react-hello-world', { method: 'auto', mode: 'extract', dest: tmp }, {
-    download: fakeDownload,
+    download: async () => assert.fail('per-file API download should not be used'),
+    downloadTarball: fakeDownload,
     isGitAvailable: async () => false,
+    resolved,
     ensureGit: async () => {},
     postProcess: async () => {},
     finalize: async () => {}
@@ -38,6 +43,7 @@ test('getCommandHandler throws when dest exists and not force', async () => {
     await getCommandHandler('react-hello-world', { method: 'api', mode: 'extract', dest: tmp }, {
       download: async () => {},
       isGitAvailable: async () => false,
+      resolved,
       ensureGit: async () => {},
       postProcess: async () => {},
       finalize: async () => {}
@@ -59,6 +65,7 @@ test('getCommandHandler accepts --force and overwrites', async () => {
   await getCommandHandler('react-hello-world', { method: 'api', mode: 'extract', dest: tmp, force: true }, {
     download: fakeDownload,
     isGitAvailable: async () => false,
+    resolved,
     ensureGit: async () => {},
     postProcess: async () => {},
     finalize: async () => {}
@@ -67,3 +74,62 @@ test('getCommandHandler accepts --force and overwrites', async () => {
   const pkg = JSON.parse(await fs.readFile(path.join(tmp, 'package.json'), 'utf8'));
   assert.equal(pkg.name, 'forced');
 });
+
+test('getCommandHandler keeps the previous folder when a --force download fails', async () => {
+  const tmp = await mkTmpDir();
+  const dest = path.join(tmp, 'sample');
+  await fs.mkdir(dest);
+  await fs.writeFile(path.join(dest, 'mine.txt'), 'keep me');
+
+  // (a failed api download keeps its partial folder for --resume; see resume.test.js)
+  await assert.rejects(getCommandHandler('react-hello-world', { method: 'tarball', mode: 'extract', dest, force: true }, {
+    downloadTarball: async (opts) => {
+      await fs.writeFile(path.join(opts.destDir, 'partial.txt'), 'x');
+      throw new Error('network down');
+    },
+    isGitAvailable: async () => false,
+    resolved,
+    postProcess: async () => {},
+    finalize: async () => {}
+  }), /network down/);
+
+  assert.equal(await fs.readFile(path.join(dest, 'mine.txt'), 'utf8'), 'keep me');
+  assert.deepEqual(await fs.readdir(tmp), ['sample'], 'no staging or backup folders left behind');
+});
+
+test('getCommandHandler stages downloads next to the destination', async () => {
+  const tmp = await mkTmpDir();
+  const dest = path.join(tmp, 'sample');
+  let stagedIn;
+  await getCommandHandler('react-hello-world', { method: 'api', mode: 'extract', dest }, {
+    download: async (opts) => {
+      stagedIn = opts.destDir;
+      await fs.writeFile(path.join(opts.destDir, 'package.json'), '{}');
+    },
+    isGitAvailable: async () => false,
+    resolved,
+    postProcess: async (p) => assert.equal(p, stagedIn),
+    finalize: async () => {}
+  });
+  assert.equal(path.dirname(stagedIn), tmp);
+  assert.notEqual(stagedIn, dest);
+  assert.deepEqual(await fs.readdir(tmp), ['sample']);
+  assert.deepEqual(await fs.readdir(dest), ['package.json']);
+});
+
+test('abortStagedDirs removes staging folders and restores moved-aside destinations', async () => {
+  const tmp = await mkTmpDir();
+  const dest = path.join(tmp, 'sample');
+  const stage = await createStagedDir(dest);
+  await fs.writeFile(path.join(stage.dir, 'a.txt'), 'a');
+  abortStagedDirs();
+  assert.deepEqual(await fs.readdir(tmp), []);
+
+  await fs.mkdir(dest);
+  await fs.writeFile(path.join(dest, 'old.txt'), 'old');
+  const stage2 = await createStagedDir(dest);
+  await fs.writeFile(path.join(stage2.dir, 'new.txt'), 'new');
+  await stage2.commit();
+  assert.deepEqual(await fs.readdir(dest), ['new.txt']);
+  assert.deepEqual(await fs.readdir(tmp), ['sample']);
+});
@@ -0,0 +1,116 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import http from 'node:http';
+import { backoffDelayMs, fetchWithRetry, httpSettingsFromOptions, rateLimitDelayMs } from '../dist/cli.js';
+
+/** Local server answering each request with the next handler in `script` (the last one repeats). */
+async function serve(script) {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    const handler = script[Math.min(hits, script.length - 1)];
+    hits++;
+    handler(req, res);
+  });
+  await new Promise((r) => server.listen(0, '127.0.0.1', r));
+  return {
+    url: `http://127.0.0.1:${server.address().port}/x`,
+    hits: () => hits,
+    close: () => new Promise((r) => { server.closeAllConnections(); server.close(r); })
+  };
+}
+
+const status = (code, headers = {}) => (req, res) => { res.writeHead(code, headers); res.end(String(code)); };
+const fast = { backoffMs: 10, retries: 3, timeoutMs: 2000 };
+
+test('fetchWithRetry retries 5xx responses and reports waits', async () => {
+  const srv = await serve([status(503), status(502), status(200)]);
+  const waits = [];
+  try {
+    const res = await fetchWithRetry(srv.url, {}, { ...fast, onWait: (w) => waits.push(w) });
+    assert.equal(res.status, 200);
+    assert.equal(srv.hits(), 3);
+    assert.deepEqual([...new Set(waits.map((w) => w.cause))], ['HTTP 503', 'HTTP 502']);
+    assert.equal(waits.at(-1).remainingMs, 0);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithRetry returns the last response once retries are exhausted', async () => {
+  const srv = await serve([status(500)]);
+  try {
+    const res = await fetchWithRetry(srv.url, {}, { ...fast, retries: 2 });
+    assert.equal(res.status, 500);
+    assert.equal(srv.hits(), 3);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithRetry retries connection resets and timeouts', async () => {
+  const srv = await serve([
+    (req) => req.socket.destroy(),
+    () => { /* never answer: hits the per-attempt timeout */ },
+    status(200)
+  ]);
+  try {
+    const res = await fetchWithRetry(srv.url, {}, { ...fast, timeoutMs: 300 });
+    assert.equal(res.status, 200);
+    assert.equal(srv.hits(), 3);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithRetry gives up with a clear timeout error', async () => {
+  const srv = await serve([() => {}]);
+  try {
+    await assert.rejects(fetchWithRetry(srv.url, {}, { ...fast, retries: 0, timeoutMs: 200 }), /timed out/);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithRetry waits out short rate-limit windows only', async () => {
+  const srv = await serve([status(429, { 'Retry-After': '1' }), status(200)]);
+  const waits = [];
+  try {
+    const res = await fetchWithRetry(srv.url, {}, { ...fast, maxRateLimitWaitMs: 5000, onWait: (w) => waits.push(w) });
+    assert.equal(res.status, 200);
+    assert.equal(waits[0].reason, 'rate-limit');
+    assert.ok(waits[0].remainingMs > 1500, 'Retry-After plus a second of slack');
+  } finally {
+    await srv.close();
+  }
+
+  const limited = await serve([status(403, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 3600) })]);
+  try {
+    const res = await fetchWithRetry(limited.url, {}, { ...fast, maxRateLimitWaitMs: 60_000 });
+    assert.equal(res.status, 403);
+    assert.equal(limited.hits(), 1);
+  } finally {
+    await limited.close();
+  }
+});
+
+test('rateLimitDelayMs reads Retry-After and X-RateLimit-Reset', () => {
+  const now = Date.UTC(2024, 0, 1);
+  assert.equal(rateLimitDelayMs(new Response('', { status: 200 }), now), null);
+  assert.equal(rateLimitDelayMs(new Response('', { status: 429, headers: { 'Retry-After': '7' } }), now), 7000);
+  const reset = String(now / 1000 + 30);
+  assert.equal(rateLimitDelayMs(new Response('', { status: 403, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': reset } }), now), 30_000);
+  assert.equal(rateLimitDelayMs(new Response('', { status: 403 }), now), null);
+});
+
+test('backoffDelayMs grows exponentially with jitter', () => {
+  for (let i = 0; i < 20; i++) {
+    const d = backoffDelayMs(3, 100);
+    assert.ok(d >= 200 && d <= 400, String(d));
+  }
+});
+
+test('httpSettingsFromOptions maps CLI flags', () => {
+  assert.deepEqual(httpSettingsFromOptions({ retries: '5', timeout: '10', rateLimitWait: '0' }), { retries: 5, timeoutMs: 10_000, maxRateLimitWaitMs: 0 });
+  assert.deepEqual(httpSettingsFromOptions({ verbose: true }), { verbose: true });
+  assert.throws(() => httpSettingsFromOptions({ retries: '-1' }), /--retries/);
+});
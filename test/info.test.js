@@ -0,0 +1,106 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { collectSampleInfo, detectComponentTypes, detectSpfxVersion, findSpfxMatrixEntry, normalizeSpfxMatrix, infoCommandHandler, resolveProvider } from '../dist/cli.js';
+
+const tree = [
+  { path: 'package.json', type: 'blob', sha: 'a', size: 100 },
+  { path: 'src', type: 'tree', sha: 'b' },
+  { path: 'src/webparts/hello/HelloWebPart.manifest.json', type: 'blob', sha: 'c', size: 50 },
+  { path: 'src/extensions/bar/BarApplicationCustomizer.manifest.json', type: 'blob', sha: 'd', size: 25 }
+];
+
+const files = {
+  'samples/react-hello/package.json': JSON.stringify({ dependencies: { '@microsoft/sp-core-library': '1.18.2', '@microsoft/sp-office-ui-fabric-core': '1.19.0' } }),
+  'samples/react-hello/.yo-rc.json': JSON.stringify({ '@microsoft/generator-sharepoint': { version: '1.18.2', componentType: 'webpart' } }),
+  'samples/react-hello/assets/sample.json': JSON.stringify([{ title: 'Hello', shortDescription: 'Says hello', authors: [{ name: 'Mona' }] }])
+};
+
+test('detectSpfxVersion prefers core packages', () => {
+  const v = detectSpfxVersion({ dependencies: { '@microsoft/sp-core-library': '~1.18.2', '@microsoft/sp-office-ui-fabric-core': '1.19.0' } });
+  assert.equal(v.pkg, '@microsoft/sp-core-library');
+  assert.deepEqual(v.sem, { major: 1, minor: 18, patch: 2 });
+  assert.equal(detectSpfxVersion({ dependencies: { react: '17' } }), null);
+});
+
+test('findSpfxMatrixEntry returns exact or closest entry', () => {
+  const entries = normalizeSpfxMatrix([{ version: '1.17.0', node: 'v16' }, { spfx: '1.18.2', nodeVersions: ['v18'] }]);
+  assert.equal(findSpfxMatrixEntry(entries, { major: 1, minor: 18, patch: 2 }).node, 'v18');
+  assert.equal(findSpfxMatrixEntry(entries, { major: 1, minor: 17, patch: 1 }).node, 'v16');
+});
+
+test('detectComponentTypes reads generator folders and .yo-rc.json', () => {
+  assert.deepEqual(detectComponentTypes(tree), ['web part', 'extension']);
+  assert.deepEqual(detectComponentTypes([], { '@microsoft/generator-sharepoint': { componentType: 'adaptiveCardExtension' } }), ['ACE']);
+});
+
+test('collectSampleInfo summarizes a sample from raw files and the tree', async () => {
+  const info = await collectSampleInfo({
+    owner: 'pnp', repo: 'r', ref: 'main', sampleFolder: 'react-hello',
+    fetchTree: async () => tree,
+    fetchText: async ({ path }) => files[path] ?? null,
+    fetchLastCommit: async () => '2024-05-01T10:00:00Z',
+    getMatrix: async () => [{ spfx: '1.18.2', node: 'v18.17.1' }]
+  });
+  assert.equal(info.title, 'Hello');
+  assert.equal(info.spfxVersion, '1.18.2');
+  assert.equal(info.spfxVersionSource, '@microsoft/sp-core-library');
+  assert.equal(info.nodeVersion, 'v18.17.1');
+  assert.equal(info.nodeVersionSource, 'spfx-matrix');
+  assert.equal(info.fileCount, 3);
+  assert.equal(info.totalSize, 175);
+  assert.deepEqual(info.componentTypes, ['web part', 'extension']);
+  assert.deepEqual(info.authors, ['Mona']);
+  assert.equal(info.lastModified, '2024-05-01T10:00:00Z');
+});
+
+test('infoCommandHandler normalizes the sample argument', async () => {
+  const info = await infoCommandHandler('samples/react-hello', { ref: 'dev', repo: 'sp-dev-fx-extensions' }, {
+    collect: async (opts) => ({ sample: opts.sampleFolder, ref: opts.ref, repo: opts.repo })
+  });
+  assert.deepEqual(info, { sample: 'react-hello', ref: 'dev', repo: 'sp-dev-fx-extensions' });
+});
+
+test('info reads the last commit date from the host it is pointed at', async (t) => {
+  const urls = [];
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    urls.push(String(url));
+    return new Response(JSON.stringify([{ commit: { committer: { date: '2024-06-01T08:00:00Z' } } }]), { status: 200 });
+  });
+  const ghes = resolveProvider({ host: 'github.contoso.com' });
+  assert.equal(await ghes.lastCommitDate({ owner: 'spfx', repo: 'samples', ref: 'main', path: 'samples/hello' }), '2024-06-01T08:00:00Z');
+  assert.deepEqual(urls, ['https://github.contoso.com/api/v3/repos/spfx/samples/commits?sha=main&path=samples%2Fhello&per_page=1']);
+
+  const info = await infoCommandHandler('hello', { ref: 'main', host: 'github.contoso.com', token: 't' }, {
+    collect: async (opts) => ({ host: opts.provider.host, token: opts.token })
+  });
+  assert.deepEqual(info, { host: 'github.contoso.com', token: 't' });
+});
+
+test('info reads a sample outside samples/ with --path and --source, and from a GitHub URL', async () => {
+  const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-info-'));
+  const dir = path.join(repo, 'webparts', 'hello');
+  await fs.mkdir(path.join(dir, 'assets'), { recursive: true });
+  await fs.writeFile(path.join(dir, 'package.json'), JSON.stringify({ dependencies: { '@microsoft/sp-core-library': '1.20.0' } }));
+  await fs.writeFile(path.join(dir, '.nvmrc'), '18\n');
+  await fs.writeFile(path.join(dir, 'assets', 'sample.json'), JSON.stringify([{ title: 'Hello' }]));
+  const git = (...a) => execFileSync('git', ['-C', repo, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a]);
+  git('init', '-q', '-b', 'main');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'hello', '--date', '2024-05-01T10:00:00Z');
+
+  const info = await infoCommandHandler('hello', { ref: 'main', source: repo, path: 'webparts' });
+  assert.deepEqual([info.sample, info.path, info.title, info.spfxVersion, info.nodeVersion, info.fileCount], ['hello', 'webparts/hello', 'Hello', '1.20.0', '18', 3]);
+  assert.ok(info.lastModified);
+  // without --path it looks in samples/
+  await assert.rejects(infoCommandHandler('hello', { ref: 'main', source: repo }), /Could not find \/samples/);
+
+  const target = await infoCommandHandler('https://github.com/contoso/spfx/tree/dev/src/webparts/weather', { ref: 'main' }, {
+    collect: async (opts) => ({ owner: opts.owner, repo: opts.repo, ref: opts.ref, sample: opts.sampleFolder, samplesPath: opts.samplesPath }),
+    resolveToken: () => null
+  });
+  assert.deepEqual(target, { owner: 'contoso', repo: 'spfx', ref: 'dev', sample: 'weather', samplesPath: 'src/webparts' });
+});
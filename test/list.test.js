@@ -0,0 +1,60 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import { filterSamples, listCommandHandler } from '../dist/cli.js';
+
+const names = ['react-hello-world', 'js-jquery', 'React-Graph-Calendar', 'angular-todo', 'react-accordion'];
+
+test('filterSamples filters case-insensitively and sorts', () => {
+  const r = filterSamples(names, { filter: 'REACT' });
+  assert.deepEqual(r.items, ['react-accordion', 'React-Graph-Calendar', 'react-hello-world']);
+  assert.equal(r.total, 3);
+
+  const d = filterSamples(names, { filter: 'react', sort: 'desc' });
+  assert.deepEqual(d.items, ['react-hello-world', 'React-Graph-Calendar', 'react-accordion']);
+});
+
+test('filterSamples pages results', () => {
+  const p1 = filterSamples(names, { limit: 2 });
+  assert.deepEqual(p1.items, ['angular-todo', 'js-jquery']);
+  assert.equal(p1.pages, 3);
+
+  const p3 = filterSamples(names, { limit: 2, page: 3 });
+  assert.deepEqual(p3.items, ['react-hello-world']);
+  assert.equal(p3.page, 3);
+});
+
+test('listCommandHandler uses API listing when git unavailable', async () => {
+  let apiCalled = false;
+  const r = await listCommandHandler({ ref: 'main', method: 'auto', filter: 'react', limit: '1' }, {
+    isGitAvailable: async () => false,
+    listViaApi: async (opts) => { apiCalled = true; assert.equal(opts.repo, 'sp-dev-fx-webparts'); return names; },
+    listViaGit: async () => { throw new Error('git should not be used'); }
+  });
+  assert.ok(apiCalled);
+  assert.deepEqual(r.items, ['react-accordion']);
+  assert.equal(r.pages, 3);
+});
+
+test('listCommandHandler rejects out-of-range and invalid paging', async () => {
+  const deps = { isGitAvailable: async () => true, listViaGit: async () => names };
+  await assert.rejects(() => listCommandHandler({ ref: 'main', limit: '2', page: '9' }, deps), /out of range/);
+  await assert.rejects(() => listCommandHandler({ ref: 'main', limit: '0' }, deps), /positive integer/);
+  await assert.rejects(() => listCommandHandler({ ref: 'main', page: '2' }, deps), /requires/);
+});
+
+test('listCommandHandler lists the host and folder get would read', async () => {
+  const seen = [];
+  const deps = {
+    isGitAvailable: async () => true,
+    listViaGit: async (opts) => { seen.push(['git', opts.cloneUrl, opts.samplesPath]); return names; },
+    listViaApi: async (opts) => { seen.push(['api', opts.provider.host, opts.samplesPath, opts.token]); return names; },
+    resolveToken: () => assert.fail('github.com token discovery is not used for other hosts')
+  };
+  await listCommandHandler({ ref: 'main', host: 'gitlab.com', owner: 'contoso/spfx', repo: 'samples', path: '.' }, deps);
+  await listCommandHandler({ ref: 'main', host: 'github.contoso.com', method: 'api', token: 't', path: 'webparts' }, deps);
+  assert.deepEqual(seen, [
+    ['git', 'https://gitlab.com/contoso/spfx/samples.git', ''],
+    ['api', 'github.contoso.com', 'webparts', 't']
+  ]);
+  await assert.rejects(() => listCommandHandler({ ref: 'main', host: 'git.contoso.com' }, deps), /Pass --provider/);
+});
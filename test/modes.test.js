@@ -0,0 +1,72 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { MODE_EXECUTABLE, MODE_FILE, getCommandHandler, gitBlobSha, readSampleManifest, verifyFiles, writeBlobFile } from '../dist/cli.js';
+
+const SCRIPT = '#!/bin/sh\necho hi\n';
+const README = '# Hello\n';
+const LINK = 'README.md';
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+
+function fakeGitHub(t) {
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    if (url.endsWith('/commits/main')) return json({ sha: COMMIT });
+    if (url.endsWith(`/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'samples', type: 'tree', sha: 'samples-sha' }] });
+    if (url.endsWith('/git/trees/samples-sha')) return json({ tree: [{ path: 'react-modes', type: 'tree', sha: 'sample-sha' }] });
+    if (url.endsWith('/git/trees/sample-sha?recursive=1')) {
+      return json({ tree: [
+        { path: 'README.md', mode: '100644', type: 'blob', sha: gitBlobSha(Buffer.from(README)), size: README.length },
+        { path: 'build.sh', mode: '100755', type: 'blob', sha: gitBlobSha(Buffer.from(SCRIPT)), size: SCRIPT.length },
+        { path: 'docs.md', mode: '120000', type: 'blob', sha: gitBlobSha(Buffer.from(LINK)), size: LINK.length },
+        { path: 'vendor/lib', mode: '160000', type: 'commit', sha: 'abcdef1234567890abcdef1234567890abcdef12' }
+      ] });
+    }
+    if (url.endsWith('/README.md')) return new Response(README);
+    if (url.endsWith('/build.sh')) return new Response(SCRIPT);
+    if (url.endsWith('/docs.md')) return new Response(LINK);
+    return new Response('', { status: 404 });
+  });
+}
+
+test('api method keeps the executable bit, creates symlinks and reports submodules', { skip: process.platform === 'win32' }, async (t) => {
+  fakeGitHub(t);
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-modes-'));
+  const dest = path.join(root, 'out');
+  let warnings;
+
+  await getCommandHandler('react-modes', { ref: 'main', method: 'api', dest }, {
+    postProcess: async () => {},
+    finalize: async (args) => { warnings = args.warnings; },
+    resolveToken: () => null,
+    cacheDir: path.join(root, 'cache')
+  });
+
+  assert.ok((await fs.stat(path.join(dest, 'build.sh'))).mode & 0o100, 'build.sh is executable');
+  assert.equal((await fs.stat(path.join(dest, 'README.md'))).mode & 0o111, 0);
+  assert.ok((await fs.lstat(path.join(dest, 'docs.md'))).isSymbolicLink());
+  assert.equal(await fs.readlink(path.join(dest, 'docs.md')), 'README.md');
+  await assert.rejects(fs.stat(path.join(dest, 'vendor', 'lib')));
+
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /Submodule vendor\/lib \(commit abcdef1\)/);
+
+  const manifest = await readSampleManifest(dest);
+  assert.deepEqual(manifest.files.map((f) => [f.path, f.mode]), [['README.md', undefined], ['build.sh', '100755'], ['docs.md', '120000']]);
+  const result = await verifyFiles(dest, manifest.files);
+  assert.deepEqual(result.modified.concat(result.missing), []);
+});
+
+test('writing a blob over an existing file sets its executable bit either way', { skip: process.platform === 'win32' }, async () => {
+  const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-modes-')), 'build.sh');
+  await fs.writeFile(file, 'old\n', { mode: 0o644 });
+  await writeBlobFile(file, Buffer.from(SCRIPT), MODE_EXECUTABLE);
+  assert.equal((await fs.stat(file)).mode & 0o111, 0o111);
+  assert.equal(await fs.readFile(file, 'utf8'), SCRIPT);
+
+  await writeBlobFile(file, Buffer.from(README), MODE_FILE);
+  assert.equal((await fs.stat(file)).mode & 0o111, 0);
+});
@@ -0,0 +1,110 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { getCommandHandler, newSampleCommandHandler, parseRemoteRepo, parseSampleJson } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-new-'));
+const git = (dir, ...a) => execFileSync('git', ['-C', dir, ...a]).toString().trim();
+const exists = (p) => fs.access(p).then(() => true, () => false);
+
+/** A `get --mode repo` working copy of a repository with samples/react-hello, cloned from `upstream`. */
+async function workingCopy() {
+  const root = await tmpDir();
+  const src = path.join(root, 'sp-dev-fx-webparts');
+  await fs.mkdir(path.join(src, 'samples', 'react-hello'), { recursive: true });
+  await fs.writeFile(path.join(src, 'samples', 'react-hello', 'README.md'), '# hello\n');
+  git(src, 'init', '-q', '-b', 'main');
+  git(src, 'add', '-A');
+  git(src, '-c', 'user.name=t', '-c', 'user.email=t@example.com', 'commit', '-q', '-m', 'samples');
+  const repo = path.join(root, 'work');
+  await getCommandHandler('react-hello', { ref: 'main', source: src, method: 'git', mode: 'repo', dest: repo }, {
+    postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null
+  });
+  // as set up by --fork on github.com
+  git(repo, 'remote', 'set-url', 'origin', 'https://github.com/pnp/sp-dev-fx-webparts.git');
+  git(repo, 'remote', 'rename', 'origin', 'upstream');
+  git(repo, 'remote', 'add', 'origin', 'git@github.com:octocat/sp-dev-fx-webparts.git');
+  git(repo, 'config', 'user.name', 'Mona Lisa');
+  return { root, repo: await fs.realpath(repo) };
+}
+
+/** An SPFx project made by the Yeoman generator, after a build. */
+async function spfxProject(root) {
+  const dir = path.join(root, 'my-project');
+  const write = async (rel, content) => {
+    await fs.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+    await fs.writeFile(path.join(dir, rel), content);
+  };
+  await write('package.json', JSON.stringify({
+    name: 'react-weather', version: '0.0.1', description: 'Shows the weather for the current site location.',
+    dependencies: { '@microsoft/sp-core-library': '1.20.0', '@microsoft/sp-webpart-base': '1.20.0', react: '17.0.1' }
+  }));
+  await write('.yo-rc.json', JSON.stringify({ '@microsoft/generator-sharepoint': { version: '1.20.0', solutionName: 'react-weather' } }));
+  await write('.nvmrc', '18\n');
+  await write('src/webparts/weather/WeatherWebPart.manifest.json', '{}');
+  await write('src/webparts/weather/WeatherWebPart.ts', 'export {};\n');
+  await write('node_modules/react/index.js', '');
+  await write('lib/webparts/weather/WeatherWebPart.js', '');
+  await write('sharepoint/solution/react-weather.sppkg', '');
+  await write('sharepoint/assets/elements.xml', '<Elements />\n');
+  return dir;
+}
+
+test('new copies a project into the sparse checkout and writes the PnP README and sample.json', async () => {
+  const { root, repo } = await workingCopy();
+  const from = await spfxProject(root);
+  const result = await newSampleCommandHandler('react-weather', { repoDir: repo, from }, { now: new Date('2024-05-01T10:00:00Z') });
+
+  const dir = path.join(repo, 'samples', 'react-weather');
+  assert.deepEqual(result, { root: repo, dir, samplePath: 'samples/react-weather', created: ['README.md', 'assets/sample.json'], kept: [] });
+  assert.deepEqual(git(repo, 'sparse-checkout', 'list').split('\n'), ['samples/react-hello', 'samples/react-weather']);
+  assert.ok(await exists(path.join(dir, 'src', 'webparts', 'weather', 'WeatherWebPart.ts')));
+  assert.ok(await exists(path.join(dir, 'sharepoint', 'assets', 'elements.xml')));
+  for (const skipped of ['node_modules', 'lib', 'sharepoint/solution']) assert.ok(!(await exists(path.join(dir, skipped))), skipped);
+  // inside the sparse checkout, so it can be staged
+  git(repo, 'add', 'samples/react-weather');
+
+  const readme = await fs.readFile(path.join(dir, 'README.md'), 'utf8');
+  assert.match(readme, /^# React Weather\n\n## Summary\n\nShows the weather for the current site location\.\n/);
+  assert.match(readme, /!\[SPFx 1\.20\.0\]\(https:\/\/img\.shields\.io\/badge\/SPFx-1\.20\.0-green\.svg\)/);
+  assert.match(readme, /!\[Node\.js 18\]/);
+  assert.match(readme, /- \[Mona Lisa\]\(https:\/\/github\.com\/octocat\)/);
+  assert.match(readme, /\| 1\.0 \| May 1, 2024 \| Initial release \|/);
+  assert.match(readme, /## Minimal path to awesome/);
+
+  const json = JSON.parse(await fs.readFile(path.join(dir, 'assets', 'sample.json'), 'utf8'));
+  assert.equal(json[0].name, 'pnp-sp-dev-spfx-web-parts-react-weather');
+  assert.equal(json[0].url, 'https://github.com/pnp/sp-dev-fx-webparts/tree/main/samples/react-weather');
+  assert.equal(json[0].creationDateTime, '2024-05-01');
+  assert.deepEqual(json[0].authors, [{ gitHubAccount: 'octocat', pictureUrl: 'https://github.com/octocat.png', name: 'Mona Lisa' }]);
+  const meta = parseSampleJson(json);
+  assert.deepEqual([meta.title, meta.spfxVersion, meta.tags], ['React Weather', '1.20.0', ['React']]);
+});
+
+test('new keeps existing files unless --force and refuses names already in the repository', async () => {
+  const { repo } = await workingCopy();
+  const dir = path.join(repo, 'samples', 'spfx-notes');
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'README.md'), '# my notes\n');
+
+  let result = await newSampleCommandHandler('spfx-notes', { repoDir: repo, author: 'mona' });
+  assert.deepEqual([result.created, result.kept], [['assets/sample.json'], ['README.md']]);
+  assert.equal(await fs.readFile(path.join(dir, 'README.md'), 'utf8'), '# my notes\n');
+  const json = JSON.parse(await fs.readFile(path.join(dir, 'assets', 'sample.json'), 'utf8'));
+  assert.deepEqual([json[0].authors[0].gitHubAccount, json[0].metadata[0].value], ['mona', 'No framework']);
+
+  result = await newSampleCommandHandler('spfx-notes', { repoDir: repo, force: true });
+  assert.deepEqual(result.created, ['README.md', 'assets/sample.json']);
+
+  await assert.rejects(newSampleCommandHandler('react-hello', { repoDir: repo }), /samples\/react-hello already exists in the repository/);
+  await assert.rejects(newSampleCommandHandler('../escape', { repoDir: repo }), /Invalid sample name/);
+  await assert.rejects(newSampleCommandHandler('x', { repoDir: repo, from: repo + '-missing' }), /not an SPFx project/);
+});
+
+test('parseRemoteRepo reads GitHub clone URLs', () => {
+  assert.deepEqual(parseRemoteRepo('https://github.com/pnp/sp-dev-fx-webparts.git'), { owner: 'pnp', repo: 'sp-dev-fx-webparts' });
+  assert.deepEqual(parseRemoteRepo('git@github.com:octocat/webparts.git'), { owner: 'octocat', repo: 'webparts' });
+});
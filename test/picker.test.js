@@ -0,0 +1,56 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { fuzzyFilter, fuzzyScore, pickSample } from '../dist/cli.js';
+
+const names = ['react-hello-world', 'js-hello-jquery', 'react-world-clock', 'angular-todo'];
+
+function fakeTty() {
+  const input = new PassThrough();
+  input.isTTY = true;
+  input.isRaw = false;
+  input.setRawMode = (v) => { input.isRaw = v; };
+  const output = new PassThrough();
+  output.isTTY = true;
+  output.columns = 100;
+  let written = '';
+  output.on('data', (d) => { written += d.toString(); });
+  return { input, output, text: () => written };
+}
+
+test('fuzzyScore matches characters in order only', () => {
+  assert.ok(fuzzyScore('rhw', 'react-hello-world') > 0);
+  assert.equal(fuzzyScore('wrh', 'react-hello-world'), null);
+  assert.ok(fuzzyScore('hello', 'react-hello-world') > fuzzyScore('hlo', 'react-hello-world'));
+});
+
+test('fuzzyFilter ranks word-start matches first', () => {
+  assert.deepEqual(fuzzyFilter('rwc', names), ['react-world-clock']);
+  assert.equal(fuzzyFilter('hello', names).length, 2);
+  assert.deepEqual(fuzzyFilter('', names), names);
+});
+
+test('pickSample filters by typed text and returns the highlighted entry', async () => {
+  const tty = fakeTty();
+  const described = [];
+  const p = pickSample({ names, input: tty.input, output: tty.output, describe: async (n) => { described.push(n); return [`about ${n}`]; } });
+  tty.input.write('clock');
+  tty.input.write('\r');
+  assert.equal(await p, 'react-world-clock');
+  assert.equal(tty.input.isRaw, false);
+  assert.match(tty.text(), /react-world-clock/);
+});
+
+test('pickSample moves with arrow keys and cancels on escape', async () => {
+  const a = fakeTty();
+  const p1 = pickSample({ names, input: a.input, output: a.output });
+  a.input.write('\x1b[B');
+  a.input.write('\r');
+  assert.equal(await p1, 'js-hello-jquery');
+
+  const b = fakeTty();
+  const p2 = pickSample({ names, input: b.input, output: b.output });
+  b.input.write('\x1b');
+  // a lone escape is flushed by readline after a short timeout
+  assert.equal(await p2, null);
+});
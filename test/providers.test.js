@@ -0,0 +1,146 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { getCommandHandler, gitBlobSha, resolveProvider } from '../dist/cli.js';
+
+const PKG = '{"name":"hello"}\n';
+const INDEX = 'export {};\n';
+const SHA_PKG = gitBlobSha(Buffer.from(PKG));
+const SHA_INDEX = gitBlobSha(Buffer.from(INDEX));
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+
+/** Start a local HTTP stand-in for a git host; `handle(url, req)` returns `[status, body, headers?]`. */
+async function serve(t, handle) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    requests.push({ url, auth: req.headers.authorization });
+    const [status, body, headers] = handle(url, req) ?? [404, '{"message":"Not Found"}'];
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' && body.startsWith('{') ? 'application/json' : 'application/octet-stream', ...headers });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => new Promise((resolve) => server.close(resolve)));
+  return { host: `http://127.0.0.1:${server.address().port}`, requests };
+}
+
+const noop = { postProcess: async () => {}, finalize: async () => {}, resolveToken: () => assert.fail('github.com token lookup used for another host') };
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-providers-'));
+
+async function assertHelloSample(dest) {
+  assert.equal(await fs.readFile(path.join(dest, 'package.json'), 'utf8'), PKG);
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'index.ts'), 'utf8'), INDEX);
+}
+
+test('GitHub Enterprise Server: the API lives under /api/v3 and files come from the contents API', async (t) => {
+  const { host, requests } = await serve(t, (url) => {
+    const p = url.pathname;
+    if (p === '/api/v3/repos/contoso/samples/commits/main') return [200, { sha: COMMIT }];
+    if (p === `/api/v3/repos/contoso/samples/git/trees/${COMMIT}`) return [200, { tree: [{ path: 'samples', type: 'tree', sha: 'samples-sha' }] }];
+    if (p === '/api/v3/repos/contoso/samples/git/trees/samples-sha') return [200, { tree: [{ path: 'hello', type: 'tree', sha: 'hello-sha' }] }];
+    if (p === '/api/v3/repos/contoso/samples/git/trees/hello-sha') {
+      return [200, { tree: [
+        { path: 'package.json', type: 'blob', sha: SHA_PKG, size: PKG.length },
+        { path: 'src', type: 'tree', sha: 'src-sha' },
+        { path: 'src/index.ts', type: 'blob', sha: SHA_INDEX, size: INDEX.length }
+      ] }];
+    }
+    if (p === '/api/v3/repos/contoso/samples/contents/samples/hello/package.json') return [200, PKG];
+    if (p === '/api/v3/repos/contoso/samples/contents/samples/hello/src/index.ts') return [200, INDEX];
+  });
+  const dest = path.join(await tmpDir(), 'hello');
+
+  await getCommandHandler('hello', { ref: 'main', owner: 'contoso', repo: 'samples', host, provider: 'github', method: 'api', dest }, { ...noop, cacheDir: await tmpDir() });
+
+  await assertHelloSample(dest);
+  assert.ok(requests.every((r) => r.url.pathname.startsWith('/api/v3/')));
+  const manifest = JSON.parse(await fs.readFile(path.join(dest, '.spfx-sample.json'), 'utf8'));
+  assert.equal(manifest.host, new URL(host).host);
+});
+
+test('GitLab: tree listings are followed across pages and the token is sent as a bearer token', async (t) => {
+  const project = '/api/v4/projects/contoso%2Fsamples';
+  const { host, requests } = await serve(t, (url) => {
+    const p = url.pathname.replace('contoso/samples', 'contoso%2Fsamples');
+    const q = url.searchParams;
+    if (p === `${project}/repository/commits/main`) return [200, { id: COMMIT }];
+    if (p === `${project}/repository/tree` && q.get('ref') !== COMMIT) return;
+    if (p === `${project}/repository/tree` && q.get('path') === 'samples' && !q.has('recursive')) {
+      return [200, [{ id: 'hello-sha', name: 'hello', type: 'tree', path: 'samples/hello', mode: '040000' }]];
+    }
+    if (p === `${project}/repository/tree` && q.get('path') === 'samples/hello' && q.get('recursive') === 'true') {
+      // two pages: the second one is only reached through X-Next-Page
+      if (q.get('page') === '1') {
+        return [200, [{ id: SHA_PKG, name: 'package.json', type: 'blob', path: 'samples/hello/package.json', mode: '100644' }], { 'X-Next-Page': '2' }];
+      }
+      return [200, [
+        { id: 'src-sha', name: 'src', type: 'tree', path: 'samples/hello/src', mode: '040000' },
+        { id: SHA_INDEX, name: 'index.ts', type: 'blob', path: 'samples/hello/src/index.ts', mode: '100644' }
+      ], { 'X-Next-Page': '' }];
+    }
+    if (p === `${project}/repository/blobs/${SHA_PKG}/raw`) return [200, PKG];
+    if (p === `${project}/repository/blobs/${SHA_INDEX}/raw`) return [200, INDEX];
+  });
+  const dest = path.join(await tmpDir(), 'hello');
+
+  await getCommandHandler('hello', { ref: 'main', owner: 'contoso', repo: 'samples', host, provider: 'gitlab', method: 'api', token: 'glpat-test', dest }, { ...noop, cacheDir: await tmpDir() });
+
+  await assertHelloSample(dest);
+  assert.ok(requests.some((r) => r.url.searchParams.get('page') === '2'));
+  assert.ok(requests.every((r) => r.auth === 'Bearer glpat-test'));
+});
+
+test('Azure DevOps: items are listed per folder and the PAT is sent with basic auth', async (t) => {
+  const repoApi = '/contoso/web/_apis/git/repositories/samples';
+  const { host, requests } = await serve(t, (url) => {
+    const q = url.searchParams;
+    if (url.pathname === `${repoApi}/commits` && q.get('searchCriteria.itemVersion.version') === 'main') return [200, { value: [{ commitId: COMMIT }] }];
+    if (url.pathname === `${repoApi}/items` && q.get('scopePath') === '/samples' && q.get('recursionLevel') === 'OneLevel') {
+      assert.equal(q.get('versionDescriptor.version'), COMMIT);
+      assert.equal(q.get('versionDescriptor.versionType'), 'commit');
+      return [200, { value: [
+        { objectId: 'samples-sha', gitObjectType: 'tree', path: '/samples' },
+        { objectId: 'hello-sha', gitObjectType: 'tree', path: '/samples/hello' }
+      ] }];
+    }
+    if (url.pathname === `${repoApi}/items` && q.get('scopePath') === '/samples/hello' && q.get('recursionLevel') === 'Full') {
+      return [200, { value: [
+        { objectId: 'hello-sha', gitObjectType: 'tree', path: '/samples/hello' },
+        { objectId: SHA_PKG, gitObjectType: 'blob', path: '/samples/hello/package.json' },
+        { objectId: 'src-sha', gitObjectType: 'tree', path: '/samples/hello/src' },
+        { objectId: SHA_INDEX, gitObjectType: 'blob', path: '/samples/hello/src/index.ts' }
+      ] }];
+    }
+    if (url.pathname === `${repoApi}/blobs/${SHA_PKG}`) return [200, PKG];
+    if (url.pathname === `${repoApi}/blobs/${SHA_INDEX}`) return [200, INDEX];
+  });
+  const dest = path.join(await tmpDir(), 'hello');
+
+  await getCommandHandler('hello', { ref: 'main', owner: 'contoso/web', repo: 'samples', host, provider: 'azure', token: 'pat', dest }, {
+    ...noop, cacheDir: await tmpDir(), isGitAvailable: async () => false
+  });
+
+  // no git and no archives on Azure DevOps: auto falls back to the API
+  await assertHelloSample(dest);
+  assert.ok(requests.every((r) => r.auth === `Basic ${Buffer.from(':pat').toString('base64')}`));
+  await assert.rejects(
+    getCommandHandler('hello', { ref: 'main', owner: 'contoso/web', repo: 'samples', host, provider: 'azure', method: 'tarball', dest: path.join(dest, 'x') }, noop),
+    /does not serve repository archives/
+  );
+});
+
+test('resolveProvider infers the provider from the host name', () => {
+  assert.equal(resolveProvider().host, 'github.com');
+  assert.equal(resolveProvider({ host: 'github.contoso.com' }).name, 'github');
+  assert.equal(resolveProvider({ host: 'github.contoso.com' }).cloneUrl('o', 'r'), 'https://github.contoso.com/o/r.git');
+  assert.equal(resolveProvider({ host: 'gitlab.com' }).name, 'gitlab');
+  assert.equal(resolveProvider({ provider: 'gitlab' }).host, 'gitlab.com');
+  assert.equal(resolveProvider({ host: 'dev.azure.com' }).cloneUrl('org/project', 'repo'), 'https://dev.azure.com/org/project/_git/repo');
+  assert.equal(resolveProvider({ host: 'contoso.visualstudio.com' }).name, 'azure');
+  assert.throws(() => resolveProvider({ host: 'git.contoso.com' }), /--provider/);
+  assert.equal(resolveProvider({ host: 'git.contoso.com', provider: 'gitlab' }).name, 'gitlab');
+  assert.throws(() => resolveProvider({ provider: 'bitbucket' }), /Invalid --provider/);
+});
@@ -0,0 +1,150 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { getCommandHandler, gitBlobSha, parseAtDate, parseLsRemote, pickRemoteRef } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-refs-'));
+const pkg = (version) => `{"name":"hello","version":"${version}"}\n`;
+
+/**
+ * A mirror whose samples/hello changes over time: 1.0.0 (January, tagged v1), 2.0.0 (March), then a commit in
+ * April that only touches another sample, plus pull request 7 with 3.0.0-pr.
+ */
+async function historyRepo() {
+  const root = await tmpDir();
+  const clone = path.join(root, 'clone');
+  const git = (date, ...a) => execFileSync('git', ['-C', clone, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a], {
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+  }).toString().trim();
+  const commit = async (date, file, content) => {
+    await fs.mkdir(path.dirname(path.join(clone, file)), { recursive: true });
+    await fs.writeFile(path.join(clone, file), content);
+    git(date, 'add', '.');
+    git(date, 'commit', '-q', '-m', file);
+    return git(date, 'rev-parse', 'HEAD');
+  };
+  await fs.mkdir(clone);
+  git('2024-01-01T00:00:00Z', 'init', '-q', '-b', 'main');
+  const jan = await commit('2024-01-10T12:00:00Z', 'samples/hello/package.json', pkg('1.0.0'));
+  git('2024-01-10T12:00:00Z', 'tag', '-a', 'v1', '-m', 'v1');
+  const mar = await commit('2024-03-10T12:00:00Z', 'samples/hello/package.json', pkg('2.0.0'));
+  await commit('2024-04-01T12:00:00Z', 'samples/other/README.md', '# other\n');
+  git('2024-04-02T12:00:00Z', 'checkout', '-q', '-b', 'feature');
+  const pr = await commit('2024-04-02T12:00:00Z', 'samples/hello/package.json', pkg('3.0.0-pr'));
+
+  const mirror = path.join(root, 'mirror.git');
+  execFileSync('git', ['clone', '-q', '--mirror', clone, mirror]);
+  execFileSync('git', ['-C', mirror, 'update-ref', 'refs/pull/7/head', pr]);
+  return { mirror, jan, mar, pr };
+}
+
+/** `get` into a new folder; returns the success message, the manifest and the version that was downloaded. */
+async function get(options) {
+  const dest = path.join(await tmpDir(), 'hello');
+  let message;
+  await getCommandHandler('hello', { ref: 'main', dest, ...options }, {
+    postProcess: async () => {}, finalize: async (o) => { message = o.successMessage; }, resolveToken: () => null, cacheDir: await tmpDir()
+  });
+  const manifest = JSON.parse(await fs.readFile(path.join(dest, '.spfx-sample.json'), 'utf8'));
+  const { version } = JSON.parse(await fs.readFile(path.join(dest, 'package.json'), 'utf8'));
+  return { message, manifest, version };
+}
+
+test('git gets resolve tags, pull requests and dates to a commit and report it', async () => {
+  const { mirror, jan, mar, pr } = await historyRepo();
+
+  let r = await get({ source: mirror, method: 'git', ref: 'v1' });
+  assert.equal(r.version, '1.0.0');
+  assert.equal(r.manifest.commit, jan, 'annotated tags are peeled to their commit');
+  assert.ok(r.message.includes(jan));
+
+  r = await get({ source: mirror, method: 'git', pr: '7' });
+  assert.deepEqual([r.version, r.manifest.ref, r.manifest.pr, r.manifest.commit], ['3.0.0-pr', 'refs/pull/7/head', 7, pr]);
+
+  // the newest commit touching the sample before the date, not the newest commit on the branch
+  r = await get({ source: mirror, method: 'git', at: '2024-02-01' });
+  assert.deepEqual([r.version, r.manifest.commit, r.manifest.at], ['1.0.0', jan, '2024-02-01T23:59:59.000Z']);
+  r = await get({ source: mirror, method: 'api', at: '2024-04-15' });
+  assert.deepEqual([r.version, r.manifest.commit], ['2.0.0', mar]);
+  assert.match(r.message, /main before 2024-04-15/);
+
+  await assert.rejects(get({ source: mirror, method: 'git', ref: 'nope' }), /Ref "nope" was not found/);
+  await assert.rejects(get({ source: mirror, method: 'git', at: '2023-12-31' }), /No commit touched samples\/hello/);
+});
+
+test('api gets pin --ref, --pr and --at through the GitHub API', async (t) => {
+  const HEAD = 'c0ffee'.padEnd(40, '0');
+  const PR = 'beef'.padEnd(40, '1');
+  const OLD = 'dead'.padEnd(40, '2');
+  const requests = [];
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = new URL(String(url));
+    requests.push(url);
+    const p = url.pathname;
+    if (p === '/repos/pnp/sp-dev-fx-webparts/commits/main') return json({ sha: HEAD });
+    if (p === '/repos/pnp/sp-dev-fx-webparts/pulls/12') return json({ head: { sha: PR } });
+    if (p === '/repos/pnp/sp-dev-fx-webparts/commits') {
+      assert.deepEqual([url.searchParams.get('sha'), url.searchParams.get('path')], [HEAD, 'samples/hello']);
+      return json([{ sha: OLD }]);
+    }
+    const commit = /\/git\/trees\/([0-9a-f]{40})$/.exec(p)?.[1];
+    if (commit) return json({ tree: [{ path: 'samples', type: 'tree', sha: `samples-${commit}` }] });
+    const samples = /\/git\/trees\/samples-(\w+)$/.exec(p)?.[1];
+    if (samples) return json({ tree: [{ path: 'hello', type: 'tree', sha: `hello-${samples}` }] });
+    const hello = /\/git\/trees\/hello-(\w+)$/.exec(p)?.[1];
+    if (hello) {
+      const version = { [HEAD]: '2.0.0', [PR]: '3.0.0-pr', [OLD]: '1.0.0' }[hello];
+      return json({ tree: [{ path: 'package.json', type: 'blob', sha: gitBlobSha(Buffer.from(pkg(version))), size: pkg(version).length }] });
+    }
+    // raw.githubusercontent.com/<owner>/<repo>/<commit>/samples/hello/package.json
+    const raw = /^\/pnp\/sp-dev-fx-webparts\/([0-9a-f]{40})\/samples\/hello\/package\.json$/.exec(p)?.[1];
+    if (raw) return new Response(pkg({ [HEAD]: '2.0.0', [PR]: '3.0.0-pr', [OLD]: '1.0.0' }[raw]));
+    return new Response('', { status: 404 });
+  });
+
+  let r = await get({ method: 'api' });
+  assert.deepEqual([r.version, r.manifest.ref, r.manifest.commit], ['2.0.0', 'main', HEAD]);
+  assert.ok(r.message.includes(`main @ ${HEAD}`));
+
+  r = await get({ method: 'api', pr: '12' });
+  assert.deepEqual([r.version, r.manifest.commit, r.manifest.pr], ['3.0.0-pr', PR, 12]);
+
+  r = await get({ method: 'api', at: '2024-05-01T08:00:00Z' });
+  assert.deepEqual([r.version, r.manifest.commit], ['1.0.0', OLD]);
+  assert.equal(requests.find((u) => u.pathname.endsWith('/commits')).searchParams.get('until'), '2024-05-01T08:00:00.000Z');
+
+  // a full SHA needs no lookup
+  requests.length = 0;
+  r = await get({ method: 'api', ref: OLD });
+  assert.deepEqual([r.version, r.manifest.commit], ['1.0.0', OLD]);
+  assert.ok(!requests.some((u) => u.pathname.includes('/commits')));
+});
+
+test('--pr and --at are validated', async () => {
+  const dest = path.join(await tmpDir(), 'x');
+  await assert.rejects(getCommandHandler('hello', { ref: 'main', pr: '7', offline: true, dest }), /--pr.*--offline/);
+  await assert.rejects(getCommandHandler('hello', { ref: 'main', pr: 'abc', dest }), /--pr.*positive integer/);
+  await assert.rejects(getCommandHandler('hello', { ref: 'main', at: 'last tuesday', dest }), /--at must be a date/);
+  assert.equal(parseAtDate('2024-05-01').toISOString(), '2024-05-01T23:59:59.000Z');
+});
+
+test('ls-remote output is read like git fetch would', () => {
+  const sha = (c) => c.repeat(40);
+  const refs = parseLsRemote([
+    `${sha('a')}\tHEAD`,
+    `${sha('b')}\trefs/heads/release`,
+    `${sha('c')}\trefs/tags/release`,
+    `${sha('d')}\trefs/tags/v1`,
+    `${sha('e')}\trefs/tags/v1^{}`,
+    `${sha('f')}\trefs/pull/7/head`
+  ].join('\n'));
+  assert.equal(pickRemoteRef(refs, 'release'), sha('b'), 'branches win over tags');
+  assert.equal(pickRemoteRef(refs, 'v1'), sha('e'), 'annotated tags are peeled');
+  assert.equal(pickRemoteRef(refs, 'refs/pull/7/head'), sha('f'));
+  assert.equal(pickRemoteRef(refs, 'HEAD'), sha('a'));
+  assert.equal(pickRemoteRef(refs, 'missing'), null);
+});
@@ -0,0 +1,91 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { getCommandHandler, gitBlobSha } from '../dist/cli.js';
+
+const SHA_PKG = gitBlobSha(Buffer.from('{"name":"hello"}\n'));
+const SHA_INDEX = gitBlobSha(Buffer.from('export {};\n'));
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+
+/** Fake GitHub serving a two-file sample; `state.failIndex` makes src/index.ts fail, `state.treeSha` the sample's tree SHA. */
+function fakeGitHub(t, state) {
+  const requests = [];
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    requests.push(url);
+    if (url.endsWith('/commits/main')) return json({ sha: COMMIT });
+    if (url.endsWith(`/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'samples', type: 'tree', sha: 'samples-sha' }] });
+    if (url.endsWith('/git/trees/samples-sha')) return json({ tree: [{ path: 'react-hello-world', type: 'tree', sha: state.treeSha }] });
+    if (url.endsWith(`/git/trees/${state.treeSha}?recursive=1`)) {
+      return json({ tree: [
+        { path: 'package.json', type: 'blob', sha: SHA_PKG, size: 17 },
+        { path: 'src/index.ts', type: 'blob', sha: SHA_INDEX, size: 11 }
+      ] });
+    }
+    if (url.endsWith('/package.json')) return new Response('{"name":"hello"}\n');
+    if (url.endsWith('/src/index.ts') && !state.failIndex) return new Response('export {};\n');
+    return new Response('', { status: 404, statusText: 'Not Found' });
+  });
+  return requests;
+}
+
+const noop = { postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null };
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-resume-'));
+const exists = (p) => fs.stat(p).then(() => true, () => false);
+
+test('an interrupted api download is kept and --resume only fetches the missing files', async (t) => {
+  const root = await tmpDir();
+  const dest = path.join(root, 'hello');
+  const partial = path.join(root, '.hello.spfx-partial');
+  const state = { treeSha: 'sample-sha', failIndex: true };
+  const requests = fakeGitHub(t, state);
+
+  await assert.rejects(
+    getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, { ...noop, cacheDir: await tmpDir() }),
+    /--resume/
+  );
+  assert.equal(await exists(dest), false);
+  assert.equal(await fs.readFile(path.join(partial, 'package.json'), 'utf8'), '{"name":"hello"}\n');
+  const saved = JSON.parse(await fs.readFile(path.join(partial, '.spfx-resume.json'), 'utf8'));
+  assert.deepEqual({ tree: saved.tree, completed: saved.completed }, { tree: 'sample-sha', completed: ['package.json'] });
+
+  state.failIndex = false;
+  requests.length = 0;
+  // fresh cache: skipped files must come from the partial folder, not the blob cache
+  await getCommandHandler('react-hello-world', { ref: 'main', resume: true, dest }, {
+    ...noop, cacheDir: await tmpDir(), isGitAvailable: async () => assert.fail('--resume should not probe git')
+  });
+  assert.equal(requests.filter((u) => u.endsWith('/package.json')).length, 0);
+  assert.equal(requests.filter((u) => u.endsWith('/src/index.ts')).length, 1);
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'index.ts'), 'utf8'), 'export {};\n');
+  assert.equal(await exists(path.join(dest, '.spfx-resume.json')), false);
+  assert.equal(await exists(partial), false);
+});
+
+test('--resume refuses when the sample now resolves to a different tree', async (t) => {
+  const root = await tmpDir();
+  const dest = path.join(root, 'hello');
+  const state = { treeSha: 'sample-sha', failIndex: true };
+  fakeGitHub(t, state);
+
+  await assert.rejects(getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, { ...noop, cacheDir: await tmpDir() }));
+
+  state.treeSha = 'sample-sha-2';
+  state.failIndex = false;
+  await assert.rejects(
+    getCommandHandler('react-hello-world', { ref: 'main', resume: true, dest }, { ...noop, cacheDir: await tmpDir() }),
+    /different tree/
+  );
+
+  // starting over without --resume discards the stale partial download
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, { ...noop, cacheDir: await tmpDir() });
+  assert.equal(await fs.readFile(path.join(dest, 'package.json'), 'utf8'), '{"name":"hello"}\n');
+});
+
+test('--resume cannot be combined with the git or tarball methods', async () => {
+  const dest = path.join(await tmpDir(), 'hello');
+  await assert.rejects(getCommandHandler('react-hello-world', { resume: true, method: 'tarball', dest }, noop), /only works with/);
+});
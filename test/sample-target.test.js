@@ -0,0 +1,55 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { getCommandHandler, gitBlobSha, parseGitHubUrl, resolveSampleTarget } from '../dist/cli.js';
+
+const defaults = { owner: 'pnp', repo: 'sp-dev-fx-webparts', ref: 'main' };
+
+test('parseGitHubUrl reads owner, repo, ref and folder from browser URLs', () => {
+  assert.deepEqual(parseGitHubUrl('https://github.com/pnp/sp-dev-fx-extensions/tree/some-branch/samples/foo'),
+    { owner: 'pnp', repo: 'sp-dev-fx-extensions', ref: 'some-branch', path: 'samples/foo' });
+  assert.deepEqual(parseGitHubUrl('https://github.com/pnp/repo/blob/v1.2/samples/foo/README.md'),
+    { owner: 'pnp', repo: 'repo', ref: 'v1.2', path: 'samples/foo' });
+  assert.deepEqual(parseGitHubUrl('https://github.com/pnp/repo.git'), { owner: 'pnp', repo: 'repo' });
+  assert.equal(parseGitHubUrl('react-hello-world'), null);
+  assert.equal(parseGitHubUrl('https://gitlab.com/pnp/repo/tree/main/x'), null);
+});
+
+test('resolveSampleTarget handles names, --path layouts and URLs', () => {
+  assert.deepEqual(resolveSampleTarget('samples/react-a/', defaults), { ...defaults, samplesPath: 'samples', sampleFolder: 'react-a' });
+  assert.deepEqual(resolveSampleTarget('react-a', { ...defaults, path: 'src/webparts' }), { ...defaults, samplesPath: 'src/webparts', sampleFolder: 'react-a' });
+  assert.deepEqual(resolveSampleTarget('react-a', { ...defaults, path: '.' }), { ...defaults, samplesPath: '', sampleFolder: 'react-a' });
+  assert.deepEqual(resolveSampleTarget('https://github.com/me/mine/tree/dev/solutions/web/foo', defaults),
+    { owner: 'me', repo: 'mine', ref: 'dev', samplesPath: 'solutions/web', sampleFolder: 'foo' });
+  assert.throws(() => resolveSampleTarget('https://github.com/me/mine', defaults), /must point to a sample folder/);
+});
+
+test('api get follows a URL into a non-samples layout', async (t) => {
+  const README = '# Foo\n';
+  const COMMIT = 'c0ffee'.padEnd(40, '0');
+  const requests = [];
+  const json = (body) => new Response(JSON.stringify(body), { status: 200 });
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    requests.push(url);
+    if (url.endsWith('/repos/me/mine/commits/dev')) return json({ sha: COMMIT });
+    if (url.endsWith(`/repos/me/mine/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'solutions', type: 'tree', sha: 'sol-sha' }] });
+    if (url.endsWith('/repos/me/mine/git/trees/sol-sha')) return json({ tree: [{ path: 'foo', type: 'tree', sha: 'foo-sha' }] });
+    if (url.endsWith('/repos/me/mine/git/trees/foo-sha?recursive=1')) {
+      return json({ tree: [{ path: 'README.md', mode: '100644', type: 'blob', sha: gitBlobSha(Buffer.from(README)), size: README.length }] });
+    }
+    if (url === `https://raw.githubusercontent.com/me/mine/${COMMIT}/solutions/foo/README.md`) return new Response(README);
+    return new Response('', { status: 404 });
+  });
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-target-'));
+  await getCommandHandler('https://github.com/me/mine/tree/dev/solutions/foo', { method: 'api', dest: path.join(root, 'foo') }, {
+    postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null, cacheDir: path.join(root, 'cache')
+  });
+
+  assert.equal(await fs.readFile(path.join(root, 'foo', 'README.md'), 'utf8'), README);
+  const manifest = JSON.parse(await fs.readFile(path.join(root, 'foo', '.spfx-sample.json'), 'utf8'));
+  assert.deepEqual([manifest.owner, manifest.repo, manifest.ref, manifest.commit, manifest.path], ['me', 'mine', 'dev', COMMIT, 'solutions/foo']);
+});
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildSampleIndex, parseSampleJson, parseReadmeTitle, searchSampleIndex, searchCommandHandler } from '../dist/cli.js';
+
+const sampleJson = [{
+  name: 'pnp-sp-dev-spfx-web-parts-react-graph-calendar',
+  title: 'Graph Calendar',
+  shortDescription: 'Shows the current user calendar using Microsoft Graph.',
+  products: ['SharePoint'],
+  metadata: [{ key: 'CLIENT-SIDE-DEV', value: 'React' }, { key: 'SPFX-VERSION', value: '1.18.2' }],
+  tags: ['graph'],
+  authors: [{ gitHubAccount: 'octocat', name: 'Mona Lisa' }]
+}];
+
+function makeIndex() {
+  return {
+    owner: 'pnp', repo: 'sp-dev-fx-webparts', ref: 'main', createdAt: new Date().toISOString(),
+    samples: [
+      { name: 'react-graph-calendar', ...parseSampleJson(sampleJson) },
+      { name: 'react-hello-world', title: 'Hello World', description: 'Minimal web part calling graph once', tags: ['React'], authors: ['someone'], products: [] },
+      { name: 'js-jquery', title: 'jQuery', description: 'jQuery plugins', tags: [], authors: ['octocat'], products: [] }
+    ]
+  };
+}
+
+test('parseSampleJson reads PnP sample metadata', () => {
+  const m = parseSampleJson(sampleJson);
+  assert.equal(m.title, 'Graph Calendar');
+  assert.equal(m.spfxVersion, '1.18.2');
+  assert.deepEqual(m.tags, ['graph', 'React']);
+  assert.deepEqual(m.authors, ['Mona Lisa', 'octocat']);
+  assert.deepEqual(parseSampleJson('nonsense'), { tags: [], authors: [], products: [] });
+});
+
+test('parseReadmeTitle returns the first H1', () => {
+  assert.equal(parseReadmeTitle('<!-- x -->\n# My Sample\n\n## Summary'), 'My Sample');
+  assert.equal(parseReadmeTitle('no heading'), undefined);
+});
+
+test('searchSampleIndex ranks title matches above description matches', () => {
+  const hits = searchSampleIndex(makeIndex(), 'graph');
+  assert.deepEqual(hits.map(h => h.entry.name), ['react-graph-calendar', 'react-hello-world']);
+  assert.ok(hits[0].score > hits[1].score);
+});
+
+test('searchSampleIndex requires all terms and applies filters', () => {
+  assert.deepEqual(searchSampleIndex(makeIndex(), 'graph calendar').map(h => h.entry.name), ['react-graph-calendar']);
+  assert.deepEqual(searchSampleIndex(makeIndex(), '', { author: 'octo' }).map(h => h.entry.name), ['js-jquery', 'react-graph-calendar']);
+  assert.deepEqual(searchSampleIndex(makeIndex(), 'graph', { tag: 'react' }).map(h => h.entry.name), ['react-graph-calendar', 'react-hello-world']);
+});
+
+test('buildSampleIndex falls back to README titles and tolerates missing files', async () => {
+  const files = {
+    'samples/a/assets/sample.json': JSON.stringify(sampleJson),
+    'samples/b/README.md': '# Sample B\n'
+  };
+  const index = await buildSampleIndex({
+    owner: 'pnp', repo: 'r', ref: 'main',
+    listSamples: async () => ['a', 'b', 'c'],
+    fetchText: async ({ path }) => files[path] ?? null
+  });
+  assert.deepEqual(index.samples.map(s => s.title), ['Graph Calendar', 'Sample B', undefined]);
+});
+
+test('searchCommandHandler requires a query or filter', async () => {
+  await assert.rejects(() => searchCommandHandler('', { ref: 'main' }, { getIndex: async () => makeIndex() }), /search query/);
+  const hits = await searchCommandHandler('jquery', { ref: 'main', refresh: true }, {
+    getIndex: async (opts) => { assert.equal(opts.refresh, true); return makeIndex(); }
+  });
+  assert.equal(hits[0].entry.name, 'js-jquery');
+});
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { pathToFileURL } from 'node:url';
+import { getCommandHandler, listCommandHandler } from '../dist/cli.js';
+
+const PKG = '{"name":"hello"}\n';
+const INDEX = 'export {};\n';
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-source-'));
+const offline = {
+  postProcess: async () => {}, finalize: async () => {},
+  resolveToken: () => assert.fail('a local source needs no token')
+};
+
+/** A clone with samples/hello on main, a bare mirror of it, and a plain copy without .git. */
+async function localRepos() {
+  const root = await tmpDir();
+  const clone = path.join(root, 'clone');
+  const git = (...a) => execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a], { stdio: 'ignore' });
+  await fs.mkdir(path.join(clone, 'samples', 'hello', 'src'), { recursive: true });
+  await fs.mkdir(path.join(clone, 'samples', 'other'), { recursive: true });
+  await fs.writeFile(path.join(clone, 'samples', 'hello', 'package.json'), PKG);
+  await fs.writeFile(path.join(clone, 'samples', 'hello', 'src', 'index.ts'), INDEX);
+  await fs.writeFile(path.join(clone, 'samples', 'other', 'README.md'), '# other\n');
+  git('-C', clone, 'init', '-q', '-b', 'main');
+  git('-C', clone, 'add', '.');
+  git('-C', clone, 'commit', '-q', '-m', 'samples');
+
+  const mirror = path.join(root, 'mirror.git');
+  git('clone', '-q', '--mirror', clone, mirror);
+  const copy = path.join(root, 'copy');
+  await fs.cp(clone, copy, { recursive: true, filter: (src) => path.basename(src) !== '.git' });
+  return { clone, mirror, copy };
+}
+
+async function assertHelloSample(dest) {
+  assert.equal(await fs.readFile(path.join(dest, 'package.json'), 'utf8'), PKG);
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'index.ts'), 'utf8'), INDEX);
+}
+
+test('--source reads a bare mirror with the api method and clones from it with the git method', async (t) => {
+  // nothing may reach the network
+  t.mock.method(globalThis, 'fetch', async (url) => assert.fail(`unexpected request to ${url}`));
+  const { mirror } = await localRepos();
+  const out = await tmpDir();
+
+  await getCommandHandler('hello', { ref: 'main', source: mirror, method: 'api', dest: path.join(out, 'api') }, { ...offline, cacheDir: await tmpDir() });
+  await assertHelloSample(path.join(out, 'api'));
+  const manifest = JSON.parse(await fs.readFile(path.join(out, 'api', '.spfx-sample.json'), 'utf8'));
+  assert.equal(manifest.host, pathToFileURL(mirror).href);
+
+  await getCommandHandler('hello', { ref: 'main', source: pathToFileURL(mirror).href, method: 'git', dest: path.join(out, 'git') }, { ...offline, cacheDir: await tmpDir() });
+  await assertHelloSample(path.join(out, 'git'));
+  const git = JSON.parse(await fs.readFile(path.join(out, 'git', '.spfx-sample.json'), 'utf8'));
+  assert.deepEqual(git.files.map((f) => f.sha), manifest.files.map((f) => f.sha));
+});
+
+test('--source reads a plain copy without .git from disk', async () => {
+  const { copy } = await localRepos();
+  const dest = path.join(await tmpDir(), 'hello');
+
+  // auto cannot clone a plain folder and there are no archives, so it reads the files in place
+  await getCommandHandler('hello', { ref: 'main', source: copy, dest }, {
+    ...offline, cacheDir: await tmpDir(), isGitAvailable: async () => assert.fail('a plain folder cannot be cloned')
+  });
+  await assertHelloSample(dest);
+  await assert.rejects(getCommandHandler('hello', { ref: 'main', source: copy, method: 'git', dest: path.join(dest, 'x') }, offline), /not a git repository/);
+});
+
+test('list --source lists the samples of a local clone', async () => {
+  const { clone } = await localRepos();
+  const result = await listCommandHandler({ ref: 'main', source: clone }, { isGitAvailable: async () => assert.fail('nothing to clone') });
+  assert.deepEqual(result.items, ['hello', 'other']);
+  await assert.rejects(listCommandHandler({ ref: 'main', source: path.join(clone, 'missing') }), /--source folder not found/);
+});
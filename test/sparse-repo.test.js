@@ -0,0 +1,62 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { addSamplesCommandHandler, getCommandHandler, removeSamplesCommandHandler } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-sparse-'));
+const git = (dir, ...a) => execFileSync('git', ['-C', dir, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a]).toString().trim();
+const exists = (p) => fs.access(p).then(() => true, () => false);
+
+/** A working copy made by `get --mode repo` from a repository with three samples. */
+async function sparseRepo() {
+  const root = await tmpDir();
+  const src = path.join(root, 'src');
+  for (const s of ['react-hello', 'react-world', 'spfx-other']) {
+    await fs.mkdir(path.join(src, 'samples', s, 'src'), { recursive: true });
+    await fs.writeFile(path.join(src, 'samples', s, 'src', 'index.ts'), `// ${s}\n`);
+  }
+  await fs.writeFile(path.join(src, 'README.md'), '# samples\n');
+  git(src, 'init', '-q', '-b', 'main');
+  git(src, 'add', '-A');
+  git(src, 'commit', '-q', '-m', 'samples');
+  const dest = path.join(root, 'work');
+  await getCommandHandler('react-hello', { ref: 'main', source: src, method: 'git', mode: 'repo', dest }, {
+    postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null
+  });
+  // git reports the real path (e.g. /private/var/... on macOS)
+  return fs.realpath(dest);
+}
+
+test('add checks out more samples in a repo mode working copy, remove drops them', async () => {
+  const repo = await sparseRepo();
+  assert.ok(!(await exists(path.join(repo, 'samples', 'react-world'))));
+
+  // from a folder inside the working copy, by name or by repository path
+  const added = await addSamplesCommandHandler(['react-world', 'samples/spfx-other', 'react-hello'], { repoDir: path.join(repo, 'samples', 'react-hello') });
+  assert.deepEqual(added, { root: repo, added: ['samples/react-world', 'samples/spfx-other'], present: ['samples/react-hello'] });
+  assert.equal(await fs.readFile(path.join(repo, 'samples', 'react-world', 'src', 'index.ts'), 'utf8'), '// react-world\n');
+  assert.deepEqual(git(repo, 'sparse-checkout', 'list').split('\n'), ['samples/react-hello', 'samples/react-world', 'samples/spfx-other']);
+
+  await assert.rejects(addSamplesCommandHandler(['react-wrld'], { repoDir: repo }), /Sample not found at HEAD .*samples\/react-wrld[\s\S]*react-world/);
+
+  // uncommitted changes (including new files) are kept unless --force
+  await fs.writeFile(path.join(repo, 'samples', 'spfx-other', 'notes.md'), 'mine\n');
+  await assert.rejects(removeSamplesCommandHandler(['spfx-other'], { repoDir: repo }), /samples\/spfx-other has uncommitted changes/);
+  await fs.mkdir(path.join(repo, 'samples', 'react-world', 'node_modules'));
+  const removed = await removeSamplesCommandHandler(['react-world', 'spfx-other'], { repoDir: repo, force: true });
+  assert.deepEqual(removed, { root: repo, removed: ['samples/react-world', 'samples/spfx-other'] });
+  assert.ok(!(await exists(path.join(repo, 'samples', 'react-world'))));
+  assert.ok(!(await exists(path.join(repo, 'samples', 'spfx-other'))));
+  assert.deepEqual(git(repo, 'sparse-checkout', 'list').split('\n'), ['samples/react-hello']);
+  await assert.rejects(removeSamplesCommandHandler(['react-world'], { repoDir: repo }), /samples\/react-world is not checked out/);
+});
+
+test('add and remove need a sparse working copy', async () => {
+  const plain = await tmpDir();
+  await assert.rejects(addSamplesCommandHandler(['x'], { repoDir: plain }), /not in a git working copy/);
+  git(plain, 'init', '-q');
+  await assert.rejects(removeSamplesCommandHandler(['x'], { repoDir: plain }), /not a sparse checkout/);
+});
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import { SampleNotFoundError, editDistance, findCaseMismatch, suggestSamples } from '../dist/cli.js';
+
+const names = ['react-hello-world', 'react-helloworld-graph', 'react-world-clock', 'js-hello-jquery', 'angular-todo', 'React-Accordion'];
+
+test('editDistance counts single edits', () => {
+  assert.equal(editDistance('kitten', 'sitting'), 3);
+  assert.equal(editDistance('abc', 'abc'), 0);
+  assert.equal(editDistance('', 'abc'), 3);
+});
+
+test('suggestSamples ranks the closest names first', () => {
+  const s = suggestSamples('react-helloworld', names);
+  assert.equal(s[0], 'react-hello-world');
+  assert.ok(s.includes('react-helloworld-graph'));
+  assert.ok(!s.includes('angular-todo'));
+  assert.deepEqual(suggestSamples('zzzzzzzz', names), []);
+});
+
+test('suggestSamples matches reordered words', () => {
+  assert.equal(suggestSamples('hello-world-react', names)[0], 'react-hello-world');
+});
+
+test('findCaseMismatch detects case-only differences', () => {
+  assert.equal(findCaseMismatch('react-accordion', names), 'React-Accordion');
+  assert.equal(findCaseMismatch('React-Accordion', names), undefined);
+  assert.equal(findCaseMismatch('react-accordian', names), undefined);
+});
+
+test('SampleNotFoundError lists suggestions in its message', () => {
+  const e = new SampleNotFoundError('Sample folder not found: samples/react-helloworld at main', 'react-helloworld', names);
+  assert.ok(e instanceof Error);
+  assert.equal(e.suggestions[0], 'react-hello-world');
+  assert.match(e.message, /Did you mean:\n  react-hello-world/);
+  assert.equal(e.caseMatch, undefined);
+
+  const c = new SampleNotFoundError('not found', 'react-accordion', names);
+  assert.equal(c.caseMatch, 'React-Accordion');
+  assert.match(c.message, /case-sensitive/);
+});
@@ -0,0 +1,122 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import http from 'node:http';
+import zlib from 'node:zlib';
+import { downloadSampleViaTarball, SampleNotFoundError } from '../dist/cli.js';
+
+function header(name, size, type = '0') {
+  const h = Buffer.alloc(512);
+  h.write(name, 0, 100);
+  h.write('0000644\0', 100);
+  h.write('0000000\0', 108);
+  h.write('0000000\0', 116);
+  h.write(size.toString(8).padStart(11, '0') + '\0', 124);
+  h.write('00000000000\0', 136);
+  h.write('        ', 148);
+  h.write(type, 156);
+  h.write('ustar\0', 257);
+  h.write('00', 263);
+  let sum = 0;
+  for (const b of h) sum += b;
+  h.write(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+  return h;
+}
+
+function entry(name, content, type = '0') {
+  const data = Buffer.from(content);
+  const pad = Buffer.alloc((512 - (data.length % 512)) % 512);
+  return [header(name, data.length, type), data, pad];
+}
+
+function paxPath(p) {
+  const rec = ` path=${p}\n`;
+  let len = rec.length;
+  len += String(len + String(len).length).length;
+  return entry('PaxHeader', `${len}${rec}`, 'x');
+}
+
+/** Build a GitHub-style archive: everything under "<owner>-<repo>-<sha>/" */
+function archive(files) {
+  const root = 'pnp-sp-dev-fx-webparts-abc123/';
+  const parts = [header(root, 0, '5')];
+  for (const [name, content] of files) {
+    const full = root + name;
+    if (full.length > 99) parts.push(...paxPath(full), ...entry(full.slice(0, 99), content));
+    else parts.push(...entry(full, content));
+  }
+  parts.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(parts.flat()));
+}
+
+async function serve(body) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url);
+    if (req.url !== '/archive.tar.gz') { res.statusCode = 404; return res.end(); }
+    res.setHeader('Content-Type', 'application/x-gzip');
+    res.end(body);
+  });
+  await new Promise((r) => server.listen(0, '127.0.0.1', r));
+  return { url: `http://127.0.0.1:${server.address().port}/archive.tar.gz`, requests, close: () => new Promise((r) => server.close(r)) };
+}
+
+const longName = `samples/react-hello-world/src/${'deeply-nested-folder/'.repeat(4)}HelloWorld.tsx`;
+const files = [
+  ['README.md', 'root readme'],
+  ['samples/js-jquery/package.json', '{"name":"jquery"}'],
+  ['samples/react-hello-world/package.json', '{"name":"hello"}'],
+  ['samples/react-hello-world/src/index.ts', 'export {};\n'],
+  [longName, 'x'.repeat(1500)],
+  ['samples/react-zzz/package.json', '{"name":"zzz"}']
+];
+
+test('downloadSampleViaTarball extracts only the sample folder', async () => {
+  const srv = await serve(archive(files));
+  const dest = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-tarball-'));
+  const progress = [];
+  try {
+    await downloadSampleViaTarball({
+      owner: 'pnp', repo: 'sp-dev-fx-webparts', ref: 'main', sampleFolder: 'react-hello-world', destDir: dest,
+      url: srv.url, onProgress: (n, bytes, p) => progress.push(p)
+    });
+  } finally {
+    await srv.close();
+  }
+
+  assert.equal(await fs.readFile(path.join(dest, 'package.json'), 'utf8'), '{"name":"hello"}');
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'index.ts'), 'utf8'), 'export {};\n');
+  const long = await fs.readFile(path.join(dest, longName.slice('samples/react-hello-world/'.length)), 'utf8');
+  assert.equal(long.length, 1500);
+  assert.deepEqual((await fs.readdir(dest)).sort(), ['package.json', 'src']);
+  assert.equal(progress.length, 3);
+  assert.ok(progress.every((p) => p.startsWith('samples/react-hello-world/')));
+});
+
+test('downloadSampleViaTarball reports missing samples with suggestions', async () => {
+  const srv = await serve(archive(files));
+  const dest = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-tarball-'));
+  try {
+    await assert.rejects(
+      downloadSampleViaTarball({ owner: 'pnp', repo: 'sp-dev-fx-webparts', ref: 'main', sampleFolder: 'react-helo-world', destDir: dest, url: srv.url }),
+      (e) => e instanceof SampleNotFoundError && e.suggestions[0] === 'react-hello-world'
+    );
+  } finally {
+    await srv.close();
+  }
+});
+
+test('downloadSampleViaTarball surfaces HTTP errors', async () => {
+  const srv = await serve(archive(files));
+  const dest = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-tarball-'));
+  try {
+    await assert.rejects(
+      downloadSampleViaTarball({ owner: 'pnp', repo: 'nope', ref: 'main', sampleFolder: 'x', destDir: dest, url: srv.url + '.missing' }),
+      /HTTP 404/
+    );
+  } finally {
+    await srv.close();
+  }
+});
@@ -0,0 +1,116 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { getCommandHandler, mergeSampleUpdate, updateCommandHandler } from '../dist/cli.js';
+
+const tmpDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'spfx-update-'));
+const quiet = { finalize: async () => {}, resolveToken: () => null };
+const lines = (...l) => l.join('\n') + '\n';
+
+const pkg = (version) => lines('{', '  "name": "hello",', `  "version": "${version}",`, '  "private": true', '}');
+const README_V1 = lines('# hello', '', '## Setup', '', 'npm install', '', '## Usage', '', 'gulp serve');
+const INDEX_V1 = lines('// entry', 'export const a = 1;', '', '', '', '', 'export const b = 2;');
+
+/** An upstream repo (used as --source) with samples/hello at version 1.0.0; `commit(files)` adds a version. */
+async function upstreamRepo() {
+  const repo = await tmpDir();
+  const git = (...a) => execFileSync('git', ['-C', repo, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...a]).toString().trim();
+  const commit = async (files) => {
+    for (const [f, content] of Object.entries(files)) {
+      const file = path.join(repo, 'samples', 'hello', f);
+      if (content === null) await fs.rm(file);
+      else {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content);
+      }
+    }
+    git('add', '-A');
+    git('commit', '-q', '-m', 'change');
+    return git('rev-parse', 'HEAD');
+  };
+  git('init', '-q', '-b', 'main');
+  const v1 = await commit({ 'package.json': pkg('1.0.0'), 'README.md': README_V1, 'src/index.ts': INDEX_V1, 'src/old.ts': 'old\n' });
+  return { repo, commit, v1 };
+}
+
+test('update merges upstream changes into a renamed and edited copy', async () => {
+  const { repo, commit, v1 } = await upstreamRepo();
+  const dest = path.join(await tmpDir(), 'my-app');
+  await getCommandHandler('hello', { ref: 'main', source: repo, method: 'api', rename: 'my-app', dest }, { ...quiet, cacheDir: await tmpDir() });
+
+  // local customisations, away from what upstream changes next
+  await fs.appendFile(path.join(dest, 'README.md'), lines('', '## Our notes', '', 'Deployed to the intranet.'));
+  await fs.writeFile(path.join(dest, 'src', 'index.ts'), INDEX_V1.replace('// entry', '// entry (customised)'));
+  await fs.writeFile(path.join(dest, 'src', 'ours.ts'), 'ours\n');
+
+  const v2 = await commit({
+    'package.json': pkg('2.0.0'),
+    'README.md': README_V1.replace('npm install', 'npm ci'),
+    'src/index.ts': INDEX_V1.replace('b = 2', 'b = 3'),
+    'src/old.ts': null,
+    'src/new.ts': 'new\n'
+  });
+
+  // a dry run reports without touching anything
+  const dry = await updateCommandHandler(dest, { dryRun: true }, { ...quiet, cacheDir: await tmpDir() });
+  assert.equal(JSON.parse(await fs.readFile(path.join(dest, 'package.json'), 'utf8')).version, '1.0.0');
+  assert.equal(JSON.parse(await fs.readFile(path.join(dest, '.spfx-sample.json'), 'utf8')).commit, v1);
+
+  const { from, to, report } = await updateCommandHandler(dest, {}, { ...quiet, cacheDir: await tmpDir() });
+  assert.deepEqual(dry.report, report);
+  assert.deepEqual([from, to], [v1, v2]);
+  // the rename is re-applied to the upstream files, so package.json and README.md do not conflict
+  assert.deepEqual(report, {
+    updated: ['package.json'], added: ['src/new.ts'], removed: ['src/old.ts'], merged: ['README.md', 'src/index.ts'], conflicts: []
+  });
+  const pkgJson = JSON.parse(await fs.readFile(path.join(dest, 'package.json'), 'utf8'));
+  assert.deepEqual([pkgJson.name, pkgJson.version], ['my-app', '2.0.0']);
+  const readme = await fs.readFile(path.join(dest, 'README.md'), 'utf8');
+  assert.ok(readme.startsWith('# my-app\n') && readme.includes('npm ci') && readme.includes('Deployed to the intranet.'));
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'index.ts'), 'utf8'), INDEX_V1.replace('// entry', '// entry (customised)').replace('b = 2', 'b = 3'));
+  assert.equal(await fs.readFile(path.join(dest, 'src', 'ours.ts'), 'utf8'), 'ours\n');
+  await assert.rejects(fs.access(path.join(dest, 'src', 'old.ts')));
+
+  // the manifest now records the new base
+  const manifest = JSON.parse(await fs.readFile(path.join(dest, '.spfx-sample.json'), 'utf8'));
+  assert.equal(manifest.commit, v2);
+  assert.deepEqual(manifest.applied, { rename: 'my-app' });
+  assert.ok(manifest.updatedAt);
+  assert.equal((await updateCommandHandler(dest, {}, { ...quiet, cacheDir: await tmpDir() })).report, null);
+
+  // overlapping edits get standard conflict markers
+  await commit({ 'README.md': README_V1.replace('npm install', 'npm ci') + lines('', '## Our notes', '', 'Upstream text.') });
+  const next = await updateCommandHandler(dest, {}, { ...quiet, cacheDir: await tmpDir() });
+  assert.deepEqual(next.report.conflicts, ['README.md']);
+  const conflicted = await fs.readFile(path.join(dest, 'README.md'), 'utf8');
+  assert.match(conflicted, /<<<<<<< local\n[\s\S]*Deployed to the intranet\.\n=======\n[\s\S]*Upstream text\.\n>>>>>>> upstream main@[0-9a-f]{7}\n/);
+});
+
+test('update needs a manifest with a base commit', async () => {
+  const dir = await tmpDir();
+  await assert.rejects(updateCommandHandler(dir, {}), /No \.spfx-sample\.json/);
+  await fs.writeFile(path.join(dir, '.spfx-sample.json'), JSON.stringify({ owner: 'pnp', repo: 'r', ref: 'main', sample: 's', files: [] }));
+  await assert.rejects(updateCommandHandler(dir, {}), /records no commit/);
+});
+
+test('mergeSampleUpdate keeps CRLF checkouts and reports delete/modify conflicts', async () => {
+  const [dir, base, upstream] = await Promise.all([tmpDir(), tmpDir(), tmpDir()]);
+  const write = (d, f, c) => fs.writeFile(path.join(d, f), c);
+  await Promise.all([
+    write(base, 'a.txt', 'one\ntwo\n'), write(upstream, 'a.txt', 'one\ntwo\nthree\n'), write(dir, 'a.txt', 'one\r\ntwo\r\n'),
+    write(base, 'b.txt', 'b\n'), write(dir, 'b.txt', 'b changed\n')
+  ]);
+  const report = await mergeSampleUpdate({
+    dir,
+    base: { dir: base, files: [{ path: 'a.txt', sha: 'x' }, { path: 'b.txt', sha: 'y' }] },
+    upstream: { dir: upstream, files: [{ path: 'a.txt', sha: 'z' }] },
+    labels: { local: 'local', base: 'base', upstream: 'upstream' },
+    mergeFile: async () => assert.fail('nothing to merge line by line')
+  });
+  assert.deepEqual([report.updated, report.conflicts], [['a.txt'], ['b.txt']]);
+  assert.equal(await fs.readFile(path.join(dir, 'a.txt'), 'utf8'), 'one\r\ntwo\r\nthree\r\n');
+  assert.equal(await fs.readFile(path.join(dir, 'b.txt'), 'utf8'), 'b changed\n');
+});
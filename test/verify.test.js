@@ -0,0 +1,106 @@
+import test from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { getCommandHandler, gitBlobSha, MANIFEST_FILE, verifyCommandHandler } from '../dist/cli.js';
+
+const PKG = '{"name":"hello"}\n';
+const SHA_PKG = gitBlobSha(Buffer.from(PKG));
+const COMMIT = 'c0ffee'.padEnd(40, '0');
+
+test('gitBlobSha matches git hash-object', () => {
+  assert.equal(gitBlobSha(Buffer.alloc(0)), 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+  assert.equal(gitBlobSha(Buffer.from('hello\n')), 'ce013625030ba8dba906f756967f9e9ca394464a');
+});
+
+/** Tree API stand-in for a one-file sample; `raw` and `blob` decide what the file downloads return. */
+function fakeGitHub(t, { raw, blob }) {
+  const requests = [];
+  t.mock.method(globalThis, 'fetch', async (url) => {
+    url = String(url);
+    requests.push(url);
+    const json = (body) => new Response(JSON.stringify(body));
+    if (url.endsWith('/commits/main')) return json({ sha: COMMIT });
+    if (url.endsWith(`/git/trees/${COMMIT}`)) return json({ tree: [{ path: 'samples', type: 'tree', sha: 's1' }] });
+    if (url.endsWith('/git/trees/s1')) return json({ tree: [{ path: 'react-hello-world', type: 'tree', sha: 's2' }] });
+    if (url.endsWith('/git/trees/s2?recursive=1')) return json({ tree: [{ path: 'package.json', type: 'blob', sha: SHA_PKG, size: PKG.length }] });
+    if (url.includes('raw.githubusercontent.com')) return new Response(raw);
+    if (url.endsWith(`/git/blobs/${SHA_PKG}`)) return new Response(blob);
+    return new Response('', { status: 404 });
+  });
+  return requests;
+}
+
+async function tmp() {
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spfx-verify-'));
+  return { cacheDir, dest: path.join(cacheDir, 'out') };
+}
+
+const deps = (cacheDir) => ({ cacheDir, postProcess: async () => {}, finalize: async () => {}, resolveToken: () => null });
+
+test('stale raw content is re-downloaded by blob SHA', async (t) => {
+  const requests = fakeGitHub(t, { raw: '{"name":"stale"}\n', blob: PKG });
+  const { cacheDir, dest } = await tmp();
+
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, deps(cacheDir));
+  assert.equal(await fs.readFile(path.join(dest, 'package.json'), 'utf8'), PKG);
+  assert.ok(requests.some((u) => u.endsWith(`/git/blobs/${SHA_PKG}`)));
+
+  const manifest = JSON.parse(await fs.readFile(path.join(dest, MANIFEST_FILE), 'utf8'));
+  assert.deepEqual(manifest.files, [{ path: 'package.json', sha: SHA_PKG, size: PKG.length }]);
+});
+
+test('persistent mismatches fail the download', async (t) => {
+  fakeGitHub(t, { raw: '{"name":"trunc', blob: '{"name":"trunc' });
+  const { cacheDir, dest } = await tmp();
+  await assert.rejects(
+    getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, deps(cacheDir)),
+    /Integrity check failed for samples\/react-hello-world\/package.json/
+  );
+});
+
+test('verifyCommandHandler reports modified and missing files', async (t) => {
+  fakeGitHub(t, { raw: PKG, blob: PKG });
+  const { cacheDir, dest } = await tmp();
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest }, deps(cacheDir));
+
+  let { result } = await verifyCommandHandler(dest);
+  assert.deepEqual(result, { ok: ['package.json'], modified: [], missing: [] });
+
+  // CRLF checkouts still count as unchanged
+  await fs.writeFile(path.join(dest, 'package.json'), PKG.replace('\n', '\r\n'));
+  ({ result } = await verifyCommandHandler(dest));
+  assert.deepEqual(result.ok, ['package.json']);
+
+  await fs.writeFile(path.join(dest, 'package.json'), '{}');
+  ({ result } = await verifyCommandHandler(dest));
+  assert.deepEqual(result.modified, ['package.json']);
+
+  await fs.rm(path.join(dest, 'package.json'));
+  ({ result } = await verifyCommandHandler(dest));
+  assert.deepEqual(result.missing, ['package.json']);
+});
+
+test('the manifest records the source commit, the CLI version and any rename', async (t) => {
+  fakeGitHub(t, { raw: PKG, blob: PKG });
+  const { cacheDir, dest } = await tmp();
+  const id = '8f2a7c1e-0b5d-4a3e-9c2f-1d4e5f6a7b8c';
+  await getCommandHandler('react-hello-world', { ref: 'main', method: 'api', dest, rename: 'my-hello', newid: id }, { ...deps(cacheDir), postProcess: undefined });
+
+  const { manifest, result } = await verifyCommandHandler(dest);
+  assert.deepEqual(
+    [manifest.owner, manifest.repo, manifest.path, manifest.ref, manifest.commit, manifest.method],
+    ['pnp', 'sp-dev-fx-webparts', 'samples/react-hello-world', 'main', COMMIT, 'api']
+  );
+  assert.match(manifest.cliVersion, /^\d+\.\d+\.\d+/);
+  assert.ok(!Number.isNaN(Date.parse(manifest.createdAt)));
+  assert.deepEqual(manifest.applied, { rename: 'my-hello', newId: id });
+  // the hashes are those of the download, so the renamed package.json shows as modified
+  assert.deepEqual(result.modified, ['package.json']);
+});
+
+test('verifyCommandHandler needs a manifest', async () => {
+  const { cacheDir } = await tmp();
+  await assert.rejects(verifyCommandHandler(cacheDir), /No \.spfx-sample\.json/);
+});